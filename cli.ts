@@ -0,0 +1,27 @@
+/**
+ * The command line tool of `@codemonument/sftp-client`, a thin layer over the SftpClient.
+ *
+ * Subcommands: `upload`, `download`, `ls`, `sync`, `mkdir` and `rm`.
+ * The connection flags map to the ClientOptions (`--host`, `--user`, `--port`, `--identity-file`, ...),
+ * `--json` prints the result or the error as JSON to stdout and `--log-mode` sets the `logMode` of the SftpClient (the logs go to stderr).
+ *
+ * Exit codes: 0 success, 1 the command failed, 2 invalid arguments, 3 the connection failed.
+ *
+ * @example
+ * ```sh
+ * deno run -A jsr:@codemonument/sftp-client/cli upload --host example.com --user deploy dist/app.js /srv/www/app.js
+ * deno run -A jsr:@codemonument/sftp-client/cli ls --host maya-dev --json -a /srv/www
+ * deno run -A jsr:@codemonument/sftp-client/cli sync --host maya-dev --delete --dry-run dist /srv/www
+ * ```
+ *
+ * @module
+ */
+
+import process from "node:process";
+import { runCli } from "./src/runCli.ts";
+
+export { CLI_EXIT_CODES, type CliOutput, runCli } from "./src/runCli.ts";
+
+if (import.meta.main) {
+    process.exitCode = await runCli(process.argv.slice(2));
+}
@@ -16,7 +16,8 @@ const sftpClient = new SftpClient({
     logMode: "verbose",
 });
 
-await sftpClient.ls();
+const entries = await sftpClient.ls(".", { all: true });
+exampleLog("ls", entries.map((entry) => `${entry.type}: ${entry.name}`));
 
 const pwd = await sftpClient.pwd();
 exampleLog("pwd", pwd);
@@ -3,11 +3,11 @@
  * It's not a complete wrapper right now, but it provides the basic functionality to interact with the SFTP client.
  *
  * > [!IMPORTANT]
- * > This module does not handle any SSH config right now. You need to have the host you want to use in your SSH config setup on your machine.
- * > Example: my-host should be a valid host in your SSH config, complete with authorization information (in the example: 'maya-dev').
+ * > The connection uses your ssh config by default. Either setup the host in your SSH config (in the example: 'maya-dev'),
+ * > or pass the connection details as options, like `{ host: "example.com", user: "deploy", port: 2222, identityFile: "./id_ed25519" }`.
  *
  * @example
- * ```ts
+ * ```ts ignore
  * import { SftpClient } from "@codemonument/sftp-client";
  *
  * const sftpClient = new SftpClient({
@@ -16,7 +16,7 @@
  *    uploaderName: "sftp_1",
  * });
  *
- * await sftpClient.ls();
+ * const entries = await sftpClient.ls(".", { all: true });
  *
  * await sftpClient.close();
  * ```
@@ -24,6 +24,112 @@
  * @module
  */
 
+export type { ConnectionOptions } from "./src/ConnectionOptions.type.ts";
+
+export type {
+    DeployManifest,
+    ManifestChmod,
+    ManifestRename,
+    ManifestReport,
+    ManifestStepResult,
+    ManifestUpload,
+} from "./src/DeployManifest.type.ts";
+
+export type {
+    DirectoryDownloadResult,
+    DirectoryTransfer,
+    DirectoryTransferOptions,
+    PathPattern,
+} from "./src/DirectoryTransfer.type.ts";
+
+export type {
+    DfOptions,
+    DiskUsage,
+    InodeUsage,
+    SpaceCheckOptions,
+} from "./src/DiskUsage.type.ts";
+
 export { type GenericLogger } from "./src/GenericLogger.type.ts";
 
-export { SftpClient } from "./src/SftpClient.ts";
+export type {
+    ReconnectEvent,
+    ReconnectOptions,
+} from "./src/ReconnectOptions.type.ts";
+
+export type {
+    RemoteEntry,
+    RemoteEntryType,
+    RemoteStat,
+} from "./src/RemoteEntry.type.ts";
+
+export {
+    type ClientOptions,
+    type LsOptions,
+    SftpClient,
+    type UploadFilesOptions,
+} from "./src/SftpClient.ts";
+
+export {
+    type InMemorySftpSession,
+    InMemoryTransport,
+    type InMemoryTransportOptions,
+} from "./src/transports/InMemoryTransport.ts";
+export { ChildProcessTransport } from "./src/transports/ChildProcessTransport.ts";
+export { PuppetProcessTransport } from "./src/transports/PuppetProcessTransport.ts";
+export type {
+    SftpTransport,
+    TransportExit,
+    TransportStartOptions,
+} from "./src/transports/SftpTransport.type.ts";
+
+export { type PoolOptions, SftpPool } from "./src/SftpPool.ts";
+
+export {
+    ManifestValidationError,
+    runManifest,
+    runManifest$,
+    validateManifest,
+} from "./src/runManifest.ts";
+
+export { type BatchOptions, SftpBatch } from "./src/SftpBatch.ts";
+export type {
+    BatchResult,
+    BatchStepOptions,
+    BatchStepResult,
+    BatchStepStatus,
+} from "./src/BatchResult.type.ts";
+
+export type {
+    SyncAction,
+    SyncCompare,
+    SyncOptions,
+    SyncPlan,
+    SyncProgress,
+} from "./src/SyncPlan.type.ts";
+
+export type {
+    BatchTransferProgress,
+    TransferOptions,
+    TransferProgress,
+} from "./src/TransferProgress.type.ts";
+
+export type {
+    TransferVerification,
+    VerifyMode,
+} from "./src/TransferVerification.type.ts";
+
+export {
+    AuthenticationError,
+    ConnectionClosedError,
+    ConnectTimeoutError,
+    FileExistsError,
+    HostKeyVerificationError,
+    HostNotFoundError,
+    InsufficientSpaceError,
+    NoSuchFileError,
+    PermissionDeniedError,
+    SftpError,
+    type SftpErrorDetails,
+    UnknownSftpError,
+    VerificationError,
+} from "./src/SftpError.ts";
@@ -0,0 +1,78 @@
+import type { SftpError } from "./SftpError.ts";
+
+/**
+ * The options of each step of an `SftpBatch`.
+ */
+export type BatchStepOptions = {
+    /**
+     * Whether the batch continues, when this step fails (the `-` prefix of sftp batch files, like `-mkdir releases`).
+     * Default: false
+     */
+    ignoreError?: boolean;
+};
+
+/**
+ * The outcome of one step:
+ * - "ok": the step succeeded
+ * - "failed": the step failed and aborted the batch
+ * - "ignored": the step failed, but the batch continued because of `ignoreError`
+ * - "skipped": the step did not run, because an earlier step failed
+ */
+export type BatchStepStatus = "ok" | "failed" | "ignored" | "skipped";
+
+/**
+ * The result of one step of an `SftpBatch`.
+ */
+export type BatchStepResult = {
+    /**
+     * The number of the step, starting at 1
+     */
+    nr: number;
+
+    /**
+     * The sftp command of the step (without the `-` prefix)
+     */
+    command: string;
+
+    ignoreError: boolean;
+
+    status: BatchStepStatus;
+
+    /**
+     * The output lines of the step (without the echo of the command)
+     */
+    output: string[];
+
+    /**
+     * The error, which was detected from the output, for "failed" and "ignored" steps
+     */
+    error?: SftpError;
+};
+
+/**
+ * The result of `SftpBatch.run()`.
+ */
+export type BatchResult = {
+    /**
+     * True, if all steps ran without an error (ignored errors do not count)
+     */
+    success: boolean;
+
+    steps: BatchStepResult[];
+
+    /**
+     * The step, which aborted the batch
+     */
+    failedStep?: BatchStepResult;
+
+    /**
+     * The output of the sftp cli before the first step (like "Connected to example.com.")
+     * and the lines, which could not be assigned to a step
+     */
+    connectOutput: string[];
+
+    /**
+     * The exit code of the sftp cli, if the transport knows it
+     */
+    exitCode?: number;
+};
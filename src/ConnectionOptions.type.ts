@@ -0,0 +1,46 @@
+/**
+ * The options, which describe how the sftp cli connects to the remote server.
+ * All options besides `host` are optional and override the settings of your ~/.ssh/config file.
+ */
+export type ConnectionOptions = {
+    /**
+     * The sftp host to connect to. This can be the alias of the host in your ~/.ssh/config file or a hostname / ip address.
+     * Note: You can configure all your ssh connection details in your ~/.ssh/config file.
+     * I've set up `my-alias`, so that I can simply pass { host: 'my-alias' } to the constructor.
+     * Your configuration is correct, when you can connect to the server manually via `sftp my-alias`.
+     */
+    host: string;
+
+    /**
+     * The user to log in as (sftp destination `user@host`)
+     */
+    user?: string;
+
+    /**
+     * The port of the ssh server (`sftp -P <port>`)
+     */
+    port?: number;
+
+    /**
+     * The path to the private key file for public key authentication (`sftp -i <identityFile>`)
+     */
+    identityFile?: string;
+
+    /**
+     * A jump host to connect through, like "bastion" or "user@bastion:2222" (`sftp -J <proxyJump>`)
+     */
+    proxyJump?: string;
+
+    /**
+     * The path to an alternative ssh config file (`sftp -F <sshConfig>`)
+     */
+    sshConfig?: string;
+
+    /**
+     * Arbitrary ssh options, which are passed as `-o Key=Value` pairs.
+     * Boolean values are passed as "yes" / "no".
+     *
+     * @example { StrictHostKeyChecking: "accept-new", ServerAliveInterval: 30, Compression: true }
+     */
+    sshOptions?: Record<string, string | number | boolean>;
+};
@@ -0,0 +1,152 @@
+import type { DirectoryTransfer } from "./DirectoryTransfer.type.ts";
+import type { SftpError } from "./SftpError.ts";
+
+/**
+ * A declarative deployment for `runManifest()`, usually read from a JSON file.
+ * The JSON schema is published with the package as `deploy-manifest.schema.json`.
+ *
+ * The steps run in this order: mkdir, uploads, chmod, renames.
+ *
+ * @example
+ * ```json
+ * {
+ *     "host": "maya-dev",
+ *     "mkdir": ["/srv/www/releases/42"],
+ *     "uploads": [{ "from": "dist/**", "to": "/srv/www/releases/42", "exclude": ["**\/*.map"] }],
+ *     "chmod": [{ "path": "/srv/www/releases/42/bin", "mode": "755", "recursive": true }],
+ *     "renames": [{ "from": "/srv/www/releases/42", "to": "/srv/www/current", "overwrite": true }]
+ * }
+ * ```
+ */
+export type DeployManifest = {
+    /**
+     * The path or URL of the JSON schema, for editor support (ignored by `runManifest()`)
+     */
+    $schema?: string;
+
+    /**
+     * The host (or ssh config alias), which the manifest is meant for.
+     * It must match the `host` of the SftpClient, which runs the manifest.
+     */
+    host: string;
+
+    /**
+     * Remote directories to create, including missing parents (like `mkdir -p`)
+     */
+    mkdir?: string[];
+
+    uploads?: ManifestUpload[];
+
+    chmod?: ManifestChmod[];
+
+    /**
+     * Remote renames after the uploads, e.g. to switch a release into place
+     */
+    renames?: ManifestRename[];
+};
+
+/**
+ * Uploads the local files, which match a glob, into a remote directory.
+ */
+export type ManifestUpload = {
+    /**
+     * A glob relative to the local working directory of the SftpClient, like "dist/**" or "dist/*.html".
+     * The files keep their path below the part of the glob without wildcards ("dist/js/app.js" => "<to>/js/app.js").
+     */
+    from: string;
+
+    /**
+     * The remote directory to upload into (it is created, if missing, but its parent must exist)
+     */
+    to: string;
+
+    /**
+     * Optional - globs of the files and directories to skip, relative to the part of `from` without wildcards
+     */
+    exclude?: string[];
+};
+
+/**
+ * Changes the permissions of a remote file or directory, see `SftpClient.chmod()`.
+ */
+export type ManifestChmod = {
+    path: string;
+
+    /**
+     * An octal mode like "755" or a symbolic mode like "u+x" or "go-w"
+     */
+    mode: string;
+
+    recursive?: boolean;
+};
+
+/**
+ * Renames a remote file or directory, see `SftpClient.rename()`.
+ */
+export type ManifestRename = {
+    from: string;
+    to: string;
+
+    /**
+     * Replace an existing file or symlink at `to`
+     */
+    overwrite?: boolean;
+};
+
+/**
+ * The result of one step of a manifest, emitted by `runManifest$()`:
+ * - "ok": the step succeeded
+ * - "failed": the step failed, the following steps are skipped
+ * - "skipped": the step did not run, because an earlier step failed
+ */
+export type ManifestStepResult = {
+    /**
+     * The number of the step, starting at 1
+     */
+    nr: number;
+
+    /**
+     * The number of steps in the manifest
+     */
+    total: number;
+
+    type: "mkdir" | "upload" | "chmod" | "rename";
+
+    /**
+     * A short description, like `upload dist/** to /srv/www/releases/42`
+     */
+    description: string;
+
+    status: "ok" | "failed" | "skipped";
+
+    /**
+     * The uploaded files of an "upload" step
+     */
+    files?: DirectoryTransfer[];
+
+    error?: SftpError | Error;
+};
+
+/**
+ * The final report of `runManifest()`.
+ */
+export type ManifestReport = {
+    /**
+     * True, if all steps succeeded
+     */
+    success: boolean;
+
+    steps: ManifestStepResult[];
+
+    /**
+     * The step, which aborted the deployment
+     */
+    failedStep?: ManifestStepResult;
+
+    /**
+     * The number of uploaded files of all upload steps
+     */
+    uploadedFiles: number;
+
+    durationMs: number;
+};
@@ -0,0 +1,77 @@
+import type { SftpError } from "./SftpError.ts";
+
+/**
+ * A glob pattern (like "**\/*.js" or "assets/*") or a regular expression,
+ * which is matched against a relative path with "/" as separator.
+ */
+export type PathPattern = string | RegExp;
+
+/**
+ * The options for `SftpClient.uploadDirectory()` and `SftpClient.downloadDirectory()`.
+ * The patterns are matched against the path relative to the transferred directory with "/" as separator,
+ * like "assets/app.js".
+ */
+export type DirectoryTransferOptions = {
+    /**
+     * Glob patterns (like "**\/*.js") or regular expressions of the files to transfer.
+     * Default: all files
+     */
+    include?: PathPattern[];
+
+    /**
+     * Glob patterns or regular expressions of the files to skip.
+     * A matching directory is skipped including all its content, e.g. "node_modules".
+     * Default: none
+     */
+    exclude?: PathPattern[];
+};
+
+/**
+ * One file, which was transferred as part of a directory.
+ */
+export type DirectoryTransfer = {
+    /**
+     * The path of the file relative to the transferred directory, with "/" as separator
+     */
+    file: string;
+
+    /**
+     * The local path of the file
+     */
+    localPath: string;
+
+    /**
+     * The remote path of the file
+     */
+    remotePath: string;
+
+    /**
+     * The number of this file in the transfer, starting at 1
+     */
+    nr: number;
+
+    /**
+     * The number of files in the transfer
+     */
+    total: number;
+
+    /**
+     * Only set, when the transfer of this file failed (downloadDirectory continues with the next file)
+     */
+    error?: SftpError;
+};
+
+/**
+ * The result of `SftpClient.downloadDirectory()`.
+ */
+export type DirectoryDownloadResult = {
+    /**
+     * The files, which were written to the local directory
+     */
+    files: DirectoryTransfer[];
+
+    /**
+     * The files, which could not be downloaded, see `DirectoryTransfer.error`
+     */
+    failed: DirectoryTransfer[];
+};
@@ -0,0 +1,79 @@
+/**
+ * The usage of the remote file system, as resolved by `SftpClient.df()`.
+ * The sftp cli reports the values of the `statvfs` call of the server (requires the statvfs@openssh.com extension).
+ */
+export type DiskUsage = {
+    /**
+     * The remote path, as it was passed to `df()`, or "." for the remote cwd
+     */
+    path: string;
+
+    /**
+     * The size of the file system in bytes
+     */
+    size: number;
+
+    /**
+     * The used bytes
+     */
+    used: number;
+
+    /**
+     * The bytes available to the user of the sftp session
+     */
+    available: number;
+
+    /**
+     * The free bytes including the blocks reserved for root
+     */
+    availableToRoot: number;
+
+    /**
+     * The used part of the file system between 0 and 100, as printed by sftp
+     */
+    capacityPercent: number;
+
+    /**
+     * The inode counts, only set with `inodes: true`
+     */
+    inodes?: InodeUsage;
+};
+
+/**
+ * The inode counts of the remote file system (`df -i`).
+ */
+export type InodeUsage = {
+    total: number;
+    used: number;
+    available: number;
+    availableToRoot: number;
+
+    /**
+     * The used part of the inodes between 0 and 100, as printed by sftp
+     */
+    capacityPercent: number;
+};
+
+/**
+ * The options for `SftpClient.df()`.
+ */
+export type DfOptions = {
+    /**
+     * Whether to also query the inode counts (`df -i`).
+     * Default: false
+     */
+    inodes?: boolean;
+};
+
+/**
+ * The pre-flight check of `SftpClient.uploadFiles()` and `SftpClient.uploadDirectory()`.
+ */
+export type SpaceCheckOptions = {
+    /**
+     * Whether to compare the total size of the local files with the available space of the remote file system
+     * before the first upload. Rejects with an `InsufficientSpaceError`, if the files do not fit.
+     * Note: files which are overwritten by the upload are not taken into account.
+     * Default: false
+     */
+    checkSpace?: boolean;
+};
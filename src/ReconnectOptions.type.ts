@@ -0,0 +1,81 @@
+import type { SftpError } from "./SftpError.ts";
+
+/**
+ * The options for the automatic reconnect of the SftpClient, see `reconnect` in the ClientOptions.
+ *
+ * @example { retries: 5, backoff: (attempt) => attempt * 1000, inFlight: "retry" }
+ */
+export type ReconnectOptions = {
+    /**
+     * The maximum number of reconnect attempts after one unexpected exit of the sftp cli.
+     * When all attempts failed, all queued and later commands are rejected with the error of the last attempt.
+     */
+    retries: number;
+
+    /**
+     * The delay in milliseconds before each reconnect attempt.
+     * Either a fixed delay or a function of the attempt number (starting at 1).
+     * Default: exponential backoff, starting at 1000ms, doubled per attempt, up to 30000ms
+     */
+    backoff?: number | ((attempt: number) => number);
+
+    /**
+     * What to do with the command, which was running when the sftp cli exited:
+     * - "reject": reject it with a ConnectionClosedError (default)
+     * - "retry": send it again after the reconnect
+     *
+     * Note: "retry" is only safe for idempotent commands (like `ls`, `put` or `get`, but not `rename`).
+     * Queued commands, which were not sent to the sftp cli yet, are always sent after the reconnect.
+     */
+    inFlight?: "reject" | "retry";
+};
+
+/**
+ * The events of the automatic reconnect, see `SftpClient.reconnect$`.
+ */
+export type ReconnectEvent =
+    | {
+        /**
+         * The sftp cli exited unexpectedly, the reconnect starts
+         */
+        type: "disconnected";
+        cause?: unknown;
+    }
+    | {
+        /**
+         * A reconnect attempt starts after `delayMs`
+         */
+        type: "reconnecting";
+        attempt: number;
+        delayMs: number;
+    }
+    | {
+        /**
+         * A reconnect attempt failed, the next attempt follows (if any retries are left)
+         */
+        type: "reconnect-failed";
+        attempt: number;
+        error: SftpError;
+    }
+    | {
+        /**
+         * The sftp cli is connected again,
+         * the last remote and local working directories are restored before the queued commands are sent
+         */
+        type: "reconnected";
+        attempt: number;
+    }
+    | {
+        /**
+         * All reconnect attempts failed, the SftpClient can not be used anymore
+         */
+        type: "failed";
+        error: SftpError;
+    };
+
+/**
+ * The default backoff of the reconnect: 1s, 2s, 4s, ... up to 30s
+ */
+export function defaultBackoff(attempt: number): number {
+    return Math.min(1000 * 2 ** (attempt - 1), 30_000);
+}
@@ -0,0 +1,123 @@
+/**
+ * The type of a remote directory entry, derived from the first character of the `ls -l` permission string.
+ */
+export type RemoteEntryType =
+    | "file"
+    | "directory"
+    | "symlink"
+    | "block-device"
+    | "char-device"
+    | "fifo"
+    | "socket";
+
+/**
+ * One entry of a remote directory listing, as parsed from the output of `ls -la` in the sftp cli.
+ *
+ * @example
+ * This line: `-rw-r--r--    1 deploy   www-data     1234 Oct 18 09:41 index.html`
+ * becomes: { name: "index.html", type: "file", permissions: "rw-r--r--", mode: 0o644, links: 1, owner: "deploy", group: "www-data", size: 1234, mtime: Date(...) }
+ */
+export type RemoteEntry = {
+    /**
+     * The name of the entry, as printed by sftp.
+     * When listing a single file (instead of a directory), this is the path as it was passed to `ls`.
+     */
+    name: string;
+
+    /**
+     * The type of the entry.
+     */
+    type: RemoteEntryType;
+
+    /**
+     * The permission string without the type character.
+     * @example "rwxr-xr-x"
+     */
+    permissions: string;
+
+    /**
+     * The permission bits parsed from {@link RemoteEntry.permissions}, including setuid, setgid and sticky bits.
+     * @example 0o755
+     */
+    mode: number;
+
+    /**
+     * The number of hard links.
+     * Undefined, when sftp does not know it (sftp prints a `?` for single files listed with `ls -l <file>`).
+     */
+    links?: number;
+
+    /**
+     * The owner of the entry.
+     * This is a user name or a numeric uid, depending on the server and the `ls` flags.
+     */
+    owner: string;
+
+    /**
+     * The group of the entry.
+     * This is a group name or a numeric gid, depending on the server and the `ls` flags.
+     */
+    group: string;
+
+    /**
+     * The size in bytes.
+     */
+    size: number;
+
+    /**
+     * The modification time.
+     * Note: `ls -l` only prints minute precision for recent files and day precision for older ones.
+     */
+    mtime: Date;
+
+    /**
+     * The target of a symlink, if the server prints it in the form `name -> target`.
+     */
+    linkTarget?: string;
+
+    /**
+     * The raw `ls -l` line, from which this entry was parsed.
+     */
+    longname: string;
+};
+
+/**
+ * The status of a remote path, as resolved by `SftpClient.stat()`.
+ *
+ * Note: sftp lists symlinks to files as the link itself, but lists the content of symlinks to directories.
+ * So a symlink to a directory is reported with type "directory".
+ */
+export type RemoteStat = {
+    /**
+     * The path, as it was passed to `stat()`
+     */
+    path: string;
+
+    type: RemoteEntryType;
+
+    /**
+     * The size in bytes.
+     */
+    size: number;
+
+    /**
+     * The permission bits, including setuid, setgid and sticky bits.
+     * @example 0o755
+     */
+    mode: number;
+
+    /**
+     * The numeric user id of the owner.
+     */
+    uid: number;
+
+    /**
+     * The numeric group id.
+     */
+    gid: number;
+
+    /**
+     * The modification time (see the precision note on {@link RemoteEntry.mtime}).
+     */
+    mtime: Date;
+};
@@ -0,0 +1,123 @@
+import {
+    assertEquals,
+    assertInstanceOf,
+    assertRejects,
+    assertThrows,
+} from "@std/assert";
+import { FAKE_SFTP_EXECUTABLE, transcriptPath } from "../test/fake_sftp/mod.ts";
+import { SftpBatch } from "./SftpBatch.ts";
+import type { BatchOptions } from "./SftpBatch.ts";
+import {
+    AuthenticationError,
+    ConnectionClosedError,
+    NoSuchFileError,
+    UnknownSftpError,
+} from "./SftpError.ts";
+
+function fakeBatchOptions(transcript: string): BatchOptions {
+    return {
+        cwd: "playground",
+        host: transcriptPath(transcript),
+        executable: FAKE_SFTP_EXECUTABLE,
+    };
+}
+
+Deno.test("SftpBatch - commands", () => {
+    const batch = new SftpBatch(fakeBatchOptions("batch"))
+        .cd("releases")
+        .mkdir("releases/42", { ignoreError: true })
+        .put("local.txt")
+        .get("remote.txt", "downloads/remote.txt")
+        .chmod("local.txt", 0o640)
+        .chmod("local.txt", "755")
+        .rename("local.txt", "index.txt")
+        .put("my site/index.html", "releases/*.html");
+
+    assertEquals(batch.commands, [
+        'cd "releases"',
+        '-mkdir "releases/42"',
+        'put "local.txt"',
+        'get "remote.txt" "downloads/remote.txt"',
+        'chmod 640 "local.txt"',
+        'chmod 755 "local.txt"',
+        'rename "local.txt" "index.txt"',
+        'put "my site/index.html" "releases/*.html"',
+    ]);
+
+    assertThrows(() => batch.chmod("local.txt", "u+x"), Error, "octal");
+    assertThrows(
+        () => batch.put("local.txt\nrm index.txt"),
+        Error,
+        "invalid path",
+    );
+    assertThrows(() => batch.cd(""), Error, "invalid path");
+});
+
+Deno.test("SftpBatch - runs all steps and reports ignored errors", async () => {
+    const result = await new SftpBatch(fakeBatchOptions("batch"))
+        .cd("releases")
+        .mkdir("releases/42", { ignoreError: true })
+        .put("local.txt", "releases/42/local.txt")
+        .chmod("releases/42/local.txt", 0o644)
+        .rename("releases/42", "releases/current")
+        .run();
+
+    assertEquals(result.success, true);
+    assertEquals(result.failedStep, undefined);
+    assertEquals(result.connectOutput, ["Connected to fake-host."]);
+    assertEquals(
+        result.steps.map(({ nr, status }) => [nr, status]),
+        [[1, "ok"], [2, "ignored"], [3, "ok"], [4, "ok"], [5, "ok"]],
+    );
+
+    const mkdirStep = result.steps[1];
+    assertEquals(mkdirStep.command, 'mkdir "releases/42"');
+    assertEquals(mkdirStep.ignoreError, true);
+    assertEquals(mkdirStep.output, [
+        `remote mkdir "/home/tester/releases/42": Failure`,
+    ]);
+    assertInstanceOf(mkdirStep.error, UnknownSftpError);
+});
+
+Deno.test("SftpBatch - reports the failed step and skips the rest", async () => {
+    const result = await new SftpBatch(fakeBatchOptions("batch"))
+        .cd("releases")
+        .get("missing.txt")
+        .rename("releases/42", "releases/current")
+        .run();
+
+    assertEquals(result.success, false);
+    assertEquals(
+        result.steps.map(({ status }) => status),
+        ["ok", "failed", "skipped"],
+    );
+    assertEquals(result.failedStep?.nr, 2);
+    const error = result.failedStep?.error;
+    assertInstanceOf(error, NoSuchFileError);
+    assertEquals(error.command, 'get "missing.txt"');
+    assertEquals(error.paths, ["missing.txt"]);
+});
+
+Deno.test("SftpBatch - a dropped connection fails the last step", async () => {
+    const result = await new SftpBatch(fakeBatchOptions("batch"))
+        .cd("releases")
+        .rename("dropped.txt", "kept.txt")
+        .put("local.txt")
+        .run();
+
+    assertEquals(result.success, false);
+    assertEquals(
+        result.steps.map(({ status }) => status),
+        ["ok", "failed", "skipped"],
+    );
+    assertInstanceOf(result.failedStep?.error, ConnectionClosedError);
+});
+
+Deno.test("SftpBatch - rejects with the connection error", async () => {
+    await assertRejects(
+        () =>
+            new SftpBatch(fakeBatchOptions("auth_failure")).cd("releases")
+                .run(),
+        AuthenticationError,
+    );
+});
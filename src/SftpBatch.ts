@@ -0,0 +1,380 @@
+import { join } from "@std/path";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import type {
+    BatchResult,
+    BatchStepOptions,
+    BatchStepResult,
+} from "./BatchResult.type.ts";
+import type { ConnectionOptions } from "./ConnectionOptions.type.ts";
+import type { GenericLogger } from "./GenericLogger.type.ts";
+import { applyFileMode } from "./internal/applyFileMode.ts";
+import { buildSftpArgs } from "./internal/buildSftpArgs.ts";
+import { createSftpError } from "./internal/createSftpError.ts";
+import { quoteSftpPath } from "./internal/quoteSftpPath.ts";
+import { isInfoLine } from "./internal/sftpOutputMatchers.ts";
+import type { ClientOptions } from "./SftpClient.ts";
+import { ConnectionClosedError } from "./SftpError.ts";
+import { ChildProcessTransport } from "./transports/ChildProcessTransport.ts";
+import type { SftpTransport } from "./transports/SftpTransport.type.ts";
+
+/**
+ * The options for instantiating a new SftpBatch.
+ * Like the ClientOptions, but without the options of the interactive session.
+ */
+export type BatchOptions =
+    & ConnectionOptions
+    & Pick<ClientOptions, "cwd" | "executable" | "transport">
+    & {
+        /**
+         * Can be used to pass in a custom logger (it is passed to the transport).
+         * Default: console
+         */
+        logger?: GenericLogger;
+    };
+
+/**
+ * One collected step
+ */
+type BatchStep = {
+    command: string;
+    paths: string[];
+    ignoreError: boolean;
+};
+
+/**
+ * Collects a fixed sequence of sftp commands and runs them with `sftp -b <batch-file>`,
+ * instead of driving an interactive session line by line.
+ *
+ * The sftp cli aborts the batch at the first failing step, unless the step has `ignoreError: true` (the `-` prefix).
+ * `run()` reports the outcome of each step and which step failed, detected with the same output matchers as the SftpClient.
+ *
+ * @example
+ * ```ts ignore
+ * import { SftpBatch } from "@codemonument/sftp-client";
+ *
+ * const result = await new SftpBatch({ host: "maya-dev", cwd: "dist" })
+ *     .cd("/srv/www")
+ *     .mkdir("releases/42", { ignoreError: true })
+ *     .put("index.html", "releases/42/index.html")
+ *     .chmod("releases/42/index.html", 0o644)
+ *     .rename("releases/42", "releases/current")
+ *     .run();
+ *
+ * if (!result.success) {
+ *     console.error(`step ${result.failedStep?.nr} failed`, result.failedStep?.error);
+ * }
+ * ```
+ */
+export class SftpBatch {
+    private steps: BatchStep[] = [];
+    private transport: SftpTransport;
+    private transportOptions: {
+        command: string;
+        cwd: string;
+        logger: GenericLogger;
+    };
+    private connectionArgs: string[];
+
+    constructor(
+        {
+            cwd,
+            executable = "sftp",
+            transport = new ChildProcessTransport(),
+            logger = console,
+            ...connectionOptions
+        }: BatchOptions,
+    ) {
+        this.transport = transport;
+        this.transportOptions = { command: executable, cwd, logger };
+        this.connectionArgs = buildSftpArgs(connectionOptions);
+    }
+
+    /**
+     * The lines of the batch file, in the order of the steps
+     */
+    public get commands(): string[] {
+        return this.steps.map(({ command, ignoreError }) =>
+            `${ignoreError ? "-" : ""}${command}`
+        );
+    }
+
+    /**
+     * Adds a step, which changes the remote working directory
+     */
+    public cd(remotePath: string, options?: BatchStepOptions): this {
+        return this.addStep("cd", [remotePath], options);
+    }
+
+    /**
+     * Adds a step, which uploads a local file
+     * @param remotePath optional - if undefined: upload into the remote working directory
+     */
+    public put(
+        localPath: string,
+        remotePath?: string,
+        options?: BatchStepOptions,
+    ): this {
+        return this.addStep(
+            "put",
+            remotePath === undefined ? [localPath] : [localPath, remotePath],
+            options,
+        );
+    }
+
+    /**
+     * Adds a step, which downloads a remote file
+     * @param localPath optional - if undefined: download into the local working directory
+     */
+    public get(
+        remotePath: string,
+        localPath?: string,
+        options?: BatchStepOptions,
+    ): this {
+        return this.addStep(
+            "get",
+            localPath === undefined ? [remotePath] : [remotePath, localPath],
+            options,
+        );
+    }
+
+    /**
+     * Adds a step, which creates a remote directory (its parent must exist)
+     */
+    public mkdir(remotePath: string, options?: BatchStepOptions): this {
+        return this.addStep("mkdir", [remotePath], options);
+    }
+
+    /**
+     * Adds a step, which changes the permissions of a remote file
+     * @param mode an octal number like 0o644 or an octal string like "644"
+     * (symbolic modes need the current mode, which is not available in a batch)
+     */
+    public chmod(
+        remotePath: string,
+        mode: number | string,
+        options?: BatchStepOptions,
+    ): this {
+        if (typeof mode === "string" && !/^[0-7]{1,4}$/.test(mode)) {
+            throw new Error(
+                `SftpBatch.chmod: only octal modes are supported, got '${mode}'`,
+            );
+        }
+        const octalMode = applyFileMode(0, mode, false)
+            .toString(8)
+            .padStart(3, "0");
+        return this.addStep("chmod", [remotePath], options, octalMode);
+    }
+
+    /**
+     * Adds a step, which renames or moves a remote file or directory
+     */
+    public rename(
+        fromPath: string,
+        toPath: string,
+        options?: BatchStepOptions,
+    ): this {
+        return this.addStep("rename", [fromPath, toPath], options);
+    }
+
+    /**
+     * Writes the steps to a temporary batch file and runs `sftp -b <batch-file>`.
+     * @returns resolves with the outcome of each step, when the sftp cli exited
+     * @throws the connection error (like AuthenticationError or HostNotFoundError), if no step ran
+     */
+    public async run(): Promise<BatchResult> {
+        const tempDir = await mkdtemp(join(tmpdir(), "sftp-batch-"));
+        const batchFile = join(tempDir, "batch.txt");
+        try {
+            await writeFile(batchFile, this.commands.join("\n") + "\n");
+
+            this.transport.start({
+                ...this.transportOptions,
+                args: ["-b", batchFile, ...this.connectionArgs],
+            });
+            // the commands are read from the batch file
+            await this.transport.stdin.close().catch(() => {
+                // the sftp cli exited already
+            });
+
+            const [output, exit] = await Promise.all([
+                readOutputLines(this.transport.output),
+                this.transport.exited,
+            ]);
+            return this.evaluate(output, exit.success, exit.code);
+        } finally {
+            await rm(tempDir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Assigns the output lines to the steps.
+     *
+     * The sftp cli echoes each command to stdout (`sftp> <command>`) and prints its errors to stderr.
+     * The two streams keep their own order, but not their order relative to each other,
+     * so an error message can be read before or after the echo of a later step.
+     * Therefore the error messages are only assigned to the steps, which can have one:
+     * the steps with `ignoreError` and the step, which aborted the batch (the last echoed step, if the sftp cli failed).
+     */
+    private evaluate(
+        output: string[],
+        exitSuccess: boolean,
+        exitCode: number | undefined,
+    ): BatchResult {
+        const commands = this.commands;
+        const connectOutput: string[] = [];
+        // the error and info lines with the number of echoed steps, when they were read
+        const stepLines: { line: string; echoed: number }[] = [];
+        let echoed = 0;
+        for (const line of output) {
+            if (line === `sftp> ${commands[echoed]}`) {
+                echoed++;
+            } else if (echoed === 0) {
+                connectOutput.push(line);
+            } else {
+                stepLines.push({ line, echoed });
+            }
+        }
+
+        if (echoed === 0 && !exitSuccess && commands.length > 0) {
+            throw createSftpError(
+                `sftp batch failed before the first step: ${
+                    connectOutput.join("\n") || `exit code ${exitCode}`
+                }`,
+                { command: "connect", output: connectOutput },
+            );
+        }
+
+        const failedIndex = exitSuccess ? undefined : echoed - 1;
+        const canFail = this.steps
+            .map((step, index) => step.ignoreError || index === failedIndex)
+            .map((canFail, index) => canFail && index < echoed);
+        const stepOutputs = this.steps.map((): string[] => []);
+        let lastIndex = 0;
+        for (const { line, echoed } of stepLines) {
+            const readIndex = echoed - 1;
+            const index = isInfoLine(line)
+                ? readIndex
+                : nearestIndex(canFail, readIndex, lastIndex);
+            if (index === undefined) {
+                connectOutput.push(line);
+                continue;
+            }
+            stepOutputs[index].push(line);
+            lastIndex = isInfoLine(line) ? lastIndex : index;
+        }
+
+        const steps = this.steps.map((step, index): BatchStepResult => {
+            const result = {
+                nr: index + 1,
+                command: step.command,
+                ignoreError: step.ignoreError,
+                output: stepOutputs[index],
+            };
+            if (index >= echoed) {
+                return { ...result, status: "skipped" };
+            }
+            const errors = result.output.filter((line) => !isInfoLine(line));
+            if (errors.length === 0 && index !== failedIndex) {
+                return { ...result, status: "ok" };
+            }
+            return {
+                ...result,
+                status: step.ignoreError && index !== failedIndex
+                    ? "ignored"
+                    : "failed",
+                error: errors.length > 0
+                    ? createSftpError(
+                        `${step.command} failed: ${errors.join("\n")}`,
+                        {
+                            command: step.command,
+                            paths: step.paths,
+                            output: result.output,
+                        },
+                    )
+                    // the sftp cli exited without an error message (e.g. a dropped connection)
+                    : new ConnectionClosedError(
+                        `${step.command} failed: the sftp cli exited without an error message`,
+                        {
+                            command: step.command,
+                            paths: step.paths,
+                            output: result.output,
+                        },
+                    ),
+            };
+        });
+
+        const failedStep = steps.find((step) => step.status === "failed");
+        return {
+            success: exitSuccess && !failedStep,
+            steps,
+            failedStep,
+            exitCode,
+            connectOutput,
+        };
+    }
+
+    private addStep(
+        action: string,
+        paths: string[],
+        { ignoreError = false }: BatchStepOptions = {},
+        value?: string,
+    ): this {
+        const invalidPath = paths.find((path) =>
+            path === "" || /[\r\n]/.test(path)
+        );
+        if (invalidPath !== undefined) {
+            throw new Error(
+                `SftpBatch.${action}: invalid path '${invalidPath}'`,
+            );
+        }
+        this.steps.push({
+            command: [action, value, ...paths.map(quoteSftpPath)]
+                .filter((part) => part !== undefined)
+                .join(" "),
+            paths,
+            ignoreError,
+        });
+        return this;
+    }
+}
+
+/**
+ * Reads the merged output of the sftp cli until it is closed
+ * @returns the non-empty lines, without the "\r" of the error messages
+ */
+async function readOutputLines(
+    output: ReadableStream<string>,
+): Promise<string[]> {
+    let text = "";
+    for await (const chunk of output) {
+        text += chunk;
+    }
+    return text.split(/\r?\n|\r/)
+        .map((line) => line.trimEnd())
+        .filter((line) => line !== "");
+}
+
+/**
+ * Finds the step for an error message, which was read after the echo of the step at `readIndex`
+ * @param canFail whether each step can have an error message
+ * @param minIndex the step of the previous error message (the errors keep their order)
+ * @returns the index of the nearest step, which can have an error message, or undefined if there is none
+ */
+function nearestIndex(
+    canFail: boolean[],
+    readIndex: number,
+    minIndex: number,
+): number | undefined {
+    let nearest: number | undefined;
+    canFail.forEach((can, index) => {
+        if (
+            can && index >= minIndex &&
+            (nearest === undefined ||
+                Math.abs(index - readIndex) < Math.abs(nearest - readIndex))
+        ) {
+            nearest = index;
+        }
+    });
+    return nearest;
+}
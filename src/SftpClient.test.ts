@@ -1,16 +1,1677 @@
-import { assert } from "@std/assert";
+import {
+    assert,
+    assertEquals,
+    assertInstanceOf,
+    assertMatch,
+    assertRejects,
+} from "@std/assert";
+import { basename, dirname, join, resolve } from "@std/path";
+import { lastValueFrom, tap, toArray } from "rxjs";
+import { match } from "ts-pattern";
+import {
+    createRecordingLogger,
+    fakeSftpOptions,
+    splitSftpCommand,
+    transcriptPath,
+} from "../test/fake_sftp/mod.ts";
+import type {
+    ReconnectEvent,
+    ReconnectOptions,
+} from "./ReconnectOptions.type.ts";
+import { parseLsLine } from "./internal/parseLsOutput.ts";
 import { SftpClient } from "./SftpClient.ts";
+import {
+    AuthenticationError,
+    ConnectionClosedError,
+    ConnectTimeoutError,
+    FileExistsError,
+    HostKeyVerificationError,
+    HostNotFoundError,
+    InsufficientSpaceError,
+    NoSuchFileError,
+    UnknownSftpError,
+    VerificationError,
+} from "./SftpError.ts";
+import type { TransferProgress } from "./TransferProgress.type.ts";
+import { InMemoryTransport } from "./transports/InMemoryTransport.ts";
 
 Deno.test("SftpClient connect & exit", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    assertEquals(await sftpClient.connected, true);
+    await sftpClient.close();
+
+    assert("closing sftp client was successful");
+});
+
+Deno.test("SftpClient passes arguments with whitespace to the sftp cli", async () => {
+    const dir = await Deno.makeTempDir({ prefix: "sftp client " });
+    const transcript = join(dir, "basic transcript.txt");
+    await Deno.copyFile(transcriptPath("basic"), transcript);
+
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("basic", { host: transcript }),
+    );
+    try {
+        assertEquals(await sftpClient.connected, true);
+        await sftpClient.close();
+    } finally {
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test("SftpClient connected rejects on connection failures", async () => {
+    const cases = [
+        ["auth_failure", AuthenticationError],
+        ["host_key_failure", HostKeyVerificationError],
+        ["unknown_host", HostNotFoundError],
+        ["early_exit", ConnectionClosedError],
+    ] as const;
+
+    for (const [transcript, errorClass] of cases) {
+        const sftpClient = new SftpClient(fakeSftpOptions(transcript));
+
+        // commands wait for the connection and fail with the same error
+        const pwd = sftpClient.pwd();
+        const error = await assertRejects(
+            () => sftpClient.connected,
+            errorClass,
+        );
+        assertEquals(error.command, "connect");
+        await assertRejects(() => pwd, errorClass);
+        await assertRejects(() => sftpClient.cd("later"), errorClass);
+
+        await sftpClient.close();
+    }
+});
+
+Deno.test("SftpClient connected rejects after connectTimeoutMs", async () => {
     const sftpClient = new SftpClient({
-        cwd: "playground",
-        host: "maya-dev",
-        uploaderName: "with_puppet_process",
+        host: "silent-host",
+        cwd: ".",
+        uploaderName: "in_memory",
+        logMode: "silent",
+        connectTimeoutMs: 50,
+        transport: new InMemoryTransport({
+            greeting: [],
+            handleCommand: () => undefined,
+        }),
     });
 
+    await assertRejects(
+        () => sftpClient.connected,
+        ConnectTimeoutError,
+        "no connection after 50ms",
+    );
     await sftpClient.close();
+});
 
-    assert("closing sftp client was successful");
+/**
+ * An in-memory sftp server, which exits once while answering the first `pwd`.
+ * Restarts of the process fail, when `failRestarts` is true.
+ */
+function createFlakyTransport({ failRestarts = false } = {}) {
+    const sessions: string[][] = [];
+    let pwdCount = 0;
+    const transport = new InMemoryTransport({
+        greeting: [],
+        onStart: (session) => {
+            sessions.push([]);
+            if (failRestarts && sessions.length > 1) {
+                session.print(
+                    "ssh: connect to host flaky-host port 22: Connection refused",
+                );
+                session.exit(255);
+                return;
+            }
+            session.print("Connected to flaky-host.");
+        },
+        handleCommand: (command, session) => {
+            if (command.includes("/sftp-client-end-marker/")) {
+                return undefined;
+            }
+            sessions.at(-1)?.push(command);
+            if (command === "pwd" && ++pwdCount === 1) {
+                session.exit(255);
+                return [];
+            }
+            if (command === "pwd") {
+                return ["Remote working directory: /home/tester/playground"];
+            }
+            if (
+                command.startsWith("cd ") || command.startsWith("lcd ") ||
+                command.startsWith("ls ")
+            ) {
+                return [];
+            }
+        },
+    });
+    return { transport, sessions };
+}
+
+function createReconnectClient(
+    transport: InMemoryTransport,
+    reconnect: ReconnectOptions,
+) {
+    return new SftpClient({
+        host: "flaky-host",
+        cwd: ".",
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport,
+        reconnect,
+    });
+}
+
+Deno.test("SftpClient reconnect restores the working directories and retries the in-flight command", async () => {
+    const { transport, sessions } = createFlakyTransport();
+    const sftpClient = createReconnectClient(transport, {
+        retries: 2,
+        backoff: 0,
+        inFlight: "retry",
+    });
+    const events: ReconnectEvent[] = [];
+    sftpClient.reconnect$.subscribe((event) => events.push(event));
+
+    await sftpClient.cd("playground");
+    await sftpClient.lcd("local");
+    await sftpClient.lcd("sub");
+    const [pwd, ls] = await Promise.all([
+        sftpClient.pwd(),
+        sftpClient.ls("assets", { long: false }),
+    ]);
+
+    assertEquals(pwd, "/home/tester/playground");
+    assertEquals(ls, []);
+    assertEquals(sessions, [
+        ['cd "playground"', 'lcd "local"', 'lcd "sub"', "pwd"],
+        ['cd "playground"', 'lcd "local/sub"', "pwd", 'ls -1 "assets"'],
+    ]);
+    assertEquals(events.map((event) => event.type), [
+        "disconnected",
+        "reconnecting",
+        "reconnected",
+    ]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient reconnect rejects the in-flight command by default", async () => {
+    const { transport } = createFlakyTransport();
+    const sftpClient = createReconnectClient(transport, {
+        retries: 1,
+        backoff: 0,
+    });
+
+    await assertRejects(() => sftpClient.pwd(), ConnectionClosedError);
+    assertEquals(await sftpClient.pwd(), "/home/tester/playground");
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient reconnect fails after the retries", async () => {
+    const { transport } = createFlakyTransport({ failRestarts: true });
+    const sftpClient = createReconnectClient(transport, {
+        retries: 2,
+        backoff: (attempt) => attempt,
+    });
+    const events: ReconnectEvent[] = [];
+    sftpClient.reconnect$.subscribe((event) => events.push(event));
+
+    const pwd = sftpClient.pwd();
+    const queued = sftpClient.cd("queued");
+    await assertRejects(() => pwd, ConnectionClosedError);
+    await assertRejects(
+        () => queued,
+        ConnectionClosedError,
+        "Connection refused",
+    );
+    await assertRejects(() => sftpClient.connected, ConnectionClosedError);
+    await assertRejects(() => sftpClient.cd("later"), ConnectionClosedError);
+
+    assertEquals(events.map((event) => event.type), [
+        "disconnected",
+        "reconnecting",
+        "reconnect-failed",
+        "reconnecting",
+        "reconnect-failed",
+        "failed",
+    ]);
+    assertEquals(
+        events.filter((event) => event.type === "reconnecting")
+            .map((event) => event.delayMs),
+        [1, 2],
+    );
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient passes the connection options as argv", async () => {
+    const sftpClient = new SftpClient({
+        host: "example.com",
+        user: "deploy",
+        port: 2222,
+        sshOptions: { StrictHostKeyChecking: "accept-new" },
+        cwd: ".",
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command, session) =>
+                command === "pwd"
+                    ? [
+                        `Remote working directory: ${
+                            session.options.args.join(" ")
+                        }`,
+                    ]
+                    : undefined,
+        }),
+    });
+
+    assertEquals(
+        await sftpClient.pwd(),
+        "-P 2222 -o StrictHostKeyChecking=accept-new deploy@example.com",
+    );
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient pwd & cd", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    assertEquals(await sftpClient.pwd(), "/home/tester");
+    await sftpClient.cd("playground");
+    assertEquals(await sftpClient.pwd(), "/home/tester/playground");
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient cd failure rejects with NoSuchFileError", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    const error = await assertRejects(
+        () => sftpClient.cd("missing"),
+        NoSuchFileError,
+        "cd into 'missing' failed: No such file or directory",
+    );
+    assertEquals(error.command, 'cd "missing"');
+    assertEquals(error.paths, ["missing"]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient concurrent commands are answered in order", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    const [pwd1, cd, pwd2, cdMissing] = await Promise.allSettled([
+        sftpClient.pwd(),
+        sftpClient.cd("playground"),
+        sftpClient.pwd(),
+        sftpClient.cd("missing"),
+    ]);
+
+    assertEquals(pwd1, { status: "fulfilled", value: "/home/tester" });
+    assertEquals(cd, { status: "fulfilled", value: undefined });
+    assertEquals(pwd2, {
+        status: "fulfilled",
+        value: "/home/tester/playground",
+    });
+    assertEquals(cdMissing.status, "rejected");
+
+    await sftpClient.close();
 });
 
-// TODO: add tests for logMode
+Deno.test("SftpClient ls", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    const entries = await sftpClient.ls(undefined, { all: true });
+    assertEquals(entries.map((entry) => [entry.name, entry.type]), [
+        [".", "directory"],
+        ["..", "directory"],
+        [".bash_logout", "file"],
+        ["index.html", "file"],
+        ["assets", "directory"],
+        ["current", "symlink"],
+    ]);
+    assertEquals(entries[3].size, 1234);
+    assertEquals(entries[4].group, "www-data");
+
+    const names = await sftpClient.ls("assets", { long: false });
+    assertEquals(names, ["app.js", "style.css"]);
+
+    await assertRejects(() => sftpClient.ls("missing"), NoSuchFileError);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient ls passes lines starting with 'Connected' to the command", async () => {
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: ".",
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            // the names in the remote working directory are listed without a path
+            handleCommand: (command) =>
+                command === "ls -1" ? ["Connected.log", "app.log"] : undefined,
+        }),
+    });
+
+    assertEquals(await sftpClient.ls(undefined, { long: false }), [
+        "Connected.log",
+        "app.log",
+    ]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient uploads", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    // the same local file to two destinations at the same time
+    const results = await Promise.all([
+        sftpClient.uploadFile("local.txt"),
+        sftpClient.uploadFile("local.txt", "backup/local.txt"),
+    ]);
+    assertEquals(results, [true, true]);
+
+    await assertRejects(
+        () => sftpClient.uploadFile("missing.txt"),
+        NoSuchFileError,
+    );
+    await assertRejects(
+        () => sftpClient.uploadFile("local.txt", "/nodir/local.txt"),
+        NoSuchFileError,
+        "dest open",
+    );
+
+    const uploaded = await lastValueFrom(
+        sftpClient.uploadFiles$(["local.txt"]).pipe(toArray()),
+    );
+    assertEquals(uploaded, [{ file: "local.txt", nr: 1 }]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient downloads", async () => {
+    const sftpClient = new SftpClient(fakeSftpOptions("basic"));
+
+    assertEquals(await sftpClient.downloadFile("remote.txt"), "remote.txt");
+    assertEquals(
+        await sftpClient.downloadFile("remote.txt", "downloads/copy.txt"),
+        "downloads/copy.txt",
+    );
+
+    const error = await assertRejects(
+        () => sftpClient.downloadFile("missing.txt"),
+        NoSuchFileError,
+    );
+    assertEquals(error.output, [
+        `File "/home/tester/missing.txt" not found.`,
+    ]);
+
+    assertEquals(await sftpClient.downloadFiles(["remote.txt"]), [
+        "remote.txt",
+    ]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient uploadDirectory creates the remote tree and reports each file", async () => {
+    const localDir = await Deno.makeTempDir();
+    for (
+        const file of [
+            "index.html",
+            "assets/app.js",
+            "assets/img/logo.png",
+            "node_modules/x/index.js",
+            "notes.md",
+        ]
+    ) {
+        await Deno.mkdir(dirname(`${localDir}/dist/${file}`), {
+            recursive: true,
+        });
+        await Deno.writeTextFile(`${localDir}/dist/${file}`, file);
+    }
+
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: localDir,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                const [action, path, remotePath] = splitSftpCommand(command);
+                return match(action)
+                    .with(
+                        "mkdir",
+                        () =>
+                            path === "/srv/www"
+                                ? [`remote mkdir "${path}": Failure`]
+                                : [],
+                    )
+                    .with("ls", () => [
+                        "drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 .",
+                    ])
+                    .with("put", () => [`Uploading ${path} to ${remotePath}`])
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+
+    const reported: string[] = [];
+    const transfers = await lastValueFrom(
+        sftpClient.uploadDirectory$("dist", "/srv/www", {
+            exclude: ["node_modules", "*.md"],
+        }).pipe(
+            tap((transfer) =>
+                reported.push(
+                    `${transfer.nr}/${transfer.total} ${transfer.file}`,
+                )
+            ),
+            toArray(),
+        ),
+    );
+
+    assertEquals(reported, [
+        "1/3 assets/app.js",
+        "2/3 assets/img/logo.png",
+        "3/3 index.html",
+    ]);
+    assertEquals(transfers[0].remotePath, "/srv/www/assets/app.js");
+    assertEquals(commands, [
+        'mkdir "/srv/www"',
+        'mkdir "/srv/www/assets"',
+        'mkdir "/srv/www/assets/img"',
+        'ls -la "/srv/www"',
+        `put "${localDir}/dist/assets/app.js" "/srv/www/assets/app.js"`,
+        `put "${localDir}/dist/assets/img/logo.png" "/srv/www/assets/img/logo.png"`,
+        `put "${localDir}/dist/index.html" "/srv/www/index.html"`,
+    ]);
+
+    const jsOnly = await sftpClient.uploadDirectory("dist", "/srv/www", {
+        include: ["**/*.js"],
+        exclude: ["node_modules"],
+    });
+    assertEquals(jsOnly.map((transfer) => transfer.file), ["assets/app.js"]);
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+Deno.test("SftpClient uploadDirectory quotes paths with spaces", async () => {
+    const localDir = await Deno.makeTempDir();
+    await Deno.mkdir(`${localDir}/my site/new docs`, { recursive: true });
+    await Deno.writeTextFile(`${localDir}/my site/new docs/read me.txt`, "hi");
+
+    const { sftpClient, commands, tree } = createRemoteFsClient(["/srv/"], {
+        cwd: localDir,
+    });
+    const transfers = await sftpClient.uploadDirectory(
+        "my site",
+        "/srv/my www",
+    );
+
+    assertEquals(transfers.map((transfer) => transfer.remotePath), [
+        "/srv/my www/new docs/read me.txt",
+    ]);
+    assertEquals(tree(), [
+        "/srv/",
+        "/srv/my www/",
+        "/srv/my www/new docs/",
+        "/srv/my www/new docs/read me.txt",
+    ]);
+    assert(
+        commands.includes(
+            `put "${localDir}/my site/new docs/read me.txt" "/srv/my www/new docs/read me.txt"`,
+        ),
+    );
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+Deno.test("SftpClient downloadFile quotes paths with spaces", async () => {
+    const localDir = await Deno.makeTempDir();
+    const { sftpClient, commands } = createRemoteFsClient([
+        "/srv/",
+        "/srv/my docs/",
+        "/srv/my docs/read me.txt",
+    ], { cwd: localDir });
+
+    await sftpClient.downloadFile("/srv/my docs/read me.txt", "copy of me.txt");
+
+    assertEquals(commands, [
+        'get "/srv/my docs/read me.txt" "copy of me.txt"',
+    ]);
+    assertEquals(
+        await Deno.readTextFile(`${localDir}/copy of me.txt`),
+        "hello world!",
+    );
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+Deno.test("SftpClient downloadDirectory", async () => {
+    const localDir = await Deno.makeTempDir();
+    const remoteTree: Record<string, string[]> = {
+        "/srv/www": ["assets/", "node_modules/", "index.html", "missing.txt"],
+        "/srv/www/assets": ["app.js", "img/"],
+        "/srv/www/assets/img": ["logo.png"],
+    };
+
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: localDir,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                const [action, ...args] = splitSftpCommand(command);
+                return match(action)
+                    .with("ls", () => [
+                        "drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 .",
+                        "drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 ..",
+                        ...(remoteTree[args[1]] ?? []).map((name) =>
+                            name.endsWith("/")
+                                ? `drwxr-xr-x    2 deploy   deploy       4096 Oct 23 09:41 ${
+                                    name.slice(0, -1)
+                                }`
+                                : `-rw-r--r--    1 deploy   deploy         12 Oct 23 09:41 ${name}`
+                        ),
+                    ])
+                    .with(
+                        "get",
+                        () =>
+                            args[0].endsWith("missing.txt")
+                                ? [`File "${args[0]}" not found.`]
+                                : [`Fetching ${args[0]} to ${args[1]}`],
+                    )
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+
+    const reported: string[] = [];
+    const result = await sftpClient.downloadDirectory("/srv/www", "copy", {
+        exclude: ["node_modules"],
+    });
+    for (const transfer of result.files) {
+        reported.push(`${transfer.nr}/${transfer.total} ${transfer.file}`);
+    }
+
+    assertEquals(reported, [
+        "1/4 assets/app.js",
+        "2/4 assets/img/logo.png",
+        "3/4 index.html",
+    ]);
+    assertEquals(result.failed.map((transfer) => transfer.file), [
+        "missing.txt",
+    ]);
+    assertInstanceOf(result.failed[0].error, NoSuchFileError);
+    assertEquals(commands, [
+        'ls -la "/srv/www"',
+        'ls -la "/srv/www/assets"',
+        'ls -la "/srv/www/assets/img"',
+        `get "/srv/www/assets/app.js" "${localDir}/copy/assets/app.js"`,
+        `get "/srv/www/assets/img/logo.png" "${localDir}/copy/assets/img/logo.png"`,
+        `get "/srv/www/index.html" "${localDir}/copy/index.html"`,
+        `get "/srv/www/missing.txt" "${localDir}/copy/missing.txt"`,
+    ]);
+    assert((await Deno.stat(`${localDir}/copy/assets/img`)).isDirectory);
+
+    const jsOnly = await lastValueFrom(
+        sftpClient.downloadDirectory$("/srv/www", "js", {
+            include: ["**/*.js"],
+        }).pipe(toArray()),
+    );
+    assertEquals(jsOnly.map((transfer) => transfer.file), ["assets/app.js"]);
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+Deno.test("SftpClient sync uploads changed files and deletes removed ones", async () => {
+    const localDir = await Deno.makeTempDir();
+    await Deno.mkdir(`${localDir}/dist/assets`, { recursive: true });
+    await Deno.writeTextFile(`${localDir}/dist/index.html`, "<html></html>");
+    await Deno.writeTextFile(`${localDir}/dist/assets/app.js`, "app");
+
+    const remoteTree: Record<string, string[]> = {
+        "/srv/www": [
+            "drwxr-xr-x    2 1000     1000         4096 Oct 23 09:41 /srv/www/old",
+            // same size and uploaded after the local change => unchanged
+            "-rw-r--r--    1 1000     1000           13 Dec 31  2099 /srv/www/index.html",
+        ],
+        "/srv/www/old": [
+            "-rw-r--r--    1 1000     1000           10 Oct 23 09:41 /srv/www/old/page.html",
+        ],
+    };
+
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: localDir,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                const [action, ...args] = splitSftpCommand(command);
+                return match(action)
+                    .with("ls", () => remoteTree[args[1]])
+                    .with("mkdir", () => [])
+                    .with("put", () => [`Uploading ${args[0]} to ${args[1]}`])
+                    .with("rm", () => [`Removing ${args[0]}`])
+                    .with("rmdir", () => [])
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+
+    const plan = await sftpClient.sync("dist", "/srv/www", {
+        delete: true,
+        dryRun: true,
+    });
+    assertEquals(
+        plan.actions.map((action) => `${action.type} ${action.path}`),
+        [
+            "mkdir assets",
+            "upload assets/app.js",
+            "delete old/page.html",
+            "delete old",
+        ],
+    );
+    assertEquals(plan.unchanged, ["index.html"]);
+    assertEquals(commands, ['ls -lan "/srv/www"', 'ls -lan "/srv/www/old"']);
+
+    commands.length = 0;
+    const progress = await lastValueFrom(
+        sftpClient.sync$("dist", "/srv/www", { delete: true }).pipe(
+            toArray(),
+        ),
+    );
+    assertEquals(
+        progress.map(({ nr, total, action }) =>
+            `${nr}/${total} ${action.type} ${action.path}`
+        ),
+        [
+            "1/4 mkdir assets",
+            "2/4 upload assets/app.js",
+            "3/4 delete old/page.html",
+            "4/4 delete old",
+        ],
+    );
+    assertEquals(commands.slice(2), [
+        'mkdir "/srv/www/assets"',
+        `put "${localDir}/dist/assets/app.js" "/srv/www/assets/app.js"`,
+        'rm "/srv/www/old/page.html"',
+        'rmdir "/srv/www/old"',
+    ]);
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+Deno.test("SftpClient reports the progress of transfers", async () => {
+    const localDir = await Deno.makeTempDir();
+    await Deno.writeFile(`${localDir}/dump.sql`, new Uint8Array(10240));
+
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: localDir,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                const [action, ...args] = splitSftpCommand(command);
+                return match(action)
+                    .with("put", () => [`Uploading ${args[0]} to ${args[1]}`])
+                    .with("ls", () => [
+                        `-rw-r--r--    ? deploy   deploy     ${
+                            args[1].endsWith("a.bin") ? 300 : 100
+                        } Oct 23 09:41 ${args[1]}`,
+                    ])
+                    .with("get", () => [`Fetching ${args[0]} to x`])
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+
+    const uploadProgress: TransferProgress[] = [];
+    await sftpClient.uploadFile("dump.sql", "/backup/dump.sql", {
+        onProgress: (progress) => uploadProgress.push(progress),
+    });
+    // uploads only report their start and their end
+    assertEquals(
+        uploadProgress.map(({ bytesTransferred, percent, done }) =>
+            `${bytesTransferred} ${percent}% ${done}`
+        ),
+        ["0 0% false", "10240 100% true"],
+    );
+    assertEquals(uploadProgress[0].totalBytes, 10240);
+
+    const batchProgress = await lastValueFrom(
+        sftpClient.downloadFilesProgress$(["/srv/a.bin", "/srv/b.bin"]).pipe(
+            toArray(),
+        ),
+    );
+    assertEquals(
+        batchProgress.map((
+            { nr, files, bytesTransferred, totalBytes, current },
+        ) => `${nr}/${files} ${bytesTransferred}/${totalBytes} ${current.file} ${current.done}`),
+        [
+            "1/2 0/400 /srv/a.bin false",
+            "1/2 300/400 /srv/a.bin true",
+            "2/2 300/400 /srv/b.bin false",
+            "2/2 400/400 /srv/b.bin true",
+        ],
+    );
+
+    await sftpClient.close();
+    await Deno.remove(localDir, { recursive: true });
+});
+
+/**
+ * A client, whose transport answers the directory and link commands from an in-memory remote file system.
+ * The paths are given as "/dir/", "/file" or "/symlink -> target".
+ */
+function createRemoteFsClient(
+    paths: string[],
+    { posixRename = true, cwd = ".", onCommand }: {
+        posixRename?: boolean;
+        cwd?: string;
+        // called before the command is answered, e.g. to change the entries in between
+        onCommand?: (command: string, entries: Map<string, string>) => void;
+    } = {},
+) {
+    // path => "dir", "file" or the target of a symlink
+    const entries = new Map(paths.map((path): [string, string] => {
+        const [linkPath, target] = path.split(" -> ");
+        return target !== undefined
+            ? [linkPath, target]
+            : path.endsWith("/")
+            ? [path.slice(0, -1), "dir"]
+            : [path, "file"];
+    }));
+    const isDir = (path: string) => path === "/" || entries.get(path) === "dir";
+    const children = (dir: string) =>
+        [...entries.keys()].filter((path) => dirname(path) === dir);
+    const lsLine = (
+        path: string,
+        { name = path.split("/").pop(), owner = "deploy   deploy  " } = {},
+    ) => {
+        const kind = entries.get(path);
+        return kind === "dir"
+            ? `drwxr-xr-x    2 ${owner}     4096 Oct 23 09:41 ${name}`
+            : kind === "file"
+            ? `-rw-r--r--    1 ${owner}       12 Oct 23 09:41 ${name}`
+            : `lrwxrwxrwx    1 ${owner}       10 Oct 23 09:41 ${name} -> ${kind}`;
+    };
+    const tree = () =>
+        [...entries].map(([path, kind]) =>
+            kind === "dir"
+                ? `${path}/`
+                : kind === "file"
+                ? path
+                : `${path} -> ${kind}`
+        ).sort();
+
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                onCommand?.(command, entries);
+                const [action, ...args] = splitSftpCommand(command);
+                const path = args.at(-1) ?? "";
+                const from = args.at(-2) ?? "";
+                return match(action)
+                    .with("mkdir", () => {
+                        if (entries.has(path) || !isDir(dirname(path))) {
+                            return [`remote mkdir "${path}": Failure`];
+                        }
+                        entries.set(path, "dir");
+                        return [];
+                    })
+                    .with("ls", () => {
+                        // `-n` prints numeric ids and prefixes the names with the listed path
+                        const numeric = args[0].includes("n");
+                        const owner = numeric
+                            ? "1000     1000    "
+                            : "deploy   deploy  ";
+                        const prefix = numeric
+                            ? `${path.replace(/\/$/, "")}/`
+                            : "";
+                        // a single file is listed with its path as name
+                        return isDir(path)
+                            ? [
+                                `drwxr-xr-x    3 ${owner}     4096 Oct 23 09:41 ${prefix}.`,
+                                ...children(path).map((child) =>
+                                    lsLine(child, {
+                                        name: prefix + basename(child),
+                                        owner,
+                                    })
+                                ),
+                            ]
+                            : entries.has(path)
+                            ? [lsLine(path, { name: path, owner })]
+                            : [`Can't ls: "${path}" not found`];
+                    })
+                    .with(
+                        "rm",
+                        () =>
+                            entries.get(path) !== "dir" && entries.delete(path)
+                                ? [`Removing ${path}`]
+                                : [
+                                    `Removing ${path}`,
+                                    `remote delete ${path}: No such file or directory`,
+                                ],
+                    )
+                    .with(
+                        "rmdir",
+                        () =>
+                            isDir(path) && children(path).length === 0 &&
+                                entries.delete(path)
+                                ? []
+                                : [`remote rmdir "${path}": Failure`],
+                    )
+                    .with("rename", () => {
+                        const kind = entries.get(from);
+                        if (!kind) {
+                            return [
+                                `remote rename "${from}" to "${path}": No such file or directory`,
+                            ];
+                        }
+                        if (entries.has(path) && !posixRename) {
+                            return [
+                                `remote rename "${from}" to "${path}": Failure`,
+                            ];
+                        }
+                        entries.delete(from);
+                        entries.set(path, kind);
+                        return [];
+                    })
+                    .with("chmod", "chown", "chgrp", () => {
+                        const announce = `Changing ${
+                            { chmod: "mode", chown: "owner", chgrp: "group" }[
+                                action as "chmod"
+                            ]
+                        } on ${path}`;
+                        return entries.has(path) || isDir(path) ? [announce] : [
+                            announce,
+                            `remote setstat "${path}": No such file or directory`,
+                        ];
+                    })
+                    .with("ln", () => {
+                        const symlink = args[0] === "-s";
+                        if (
+                            entries.has(path) ||
+                            (!symlink && entries.get(from) !== "file")
+                        ) {
+                            return [
+                                `remote ${
+                                    symlink ? "symlink file" : "link"
+                                } "${from}" to "${path}": Failure`,
+                            ];
+                        }
+                        entries.set(path, symlink ? from : "file");
+                        return [];
+                    })
+                    .with("put", "reput", () => {
+                        const [local, target = "."] = args.filter(
+                            (arg) => !arg.startsWith("-"),
+                        );
+                        // an upload into a directory keeps the local file name
+                        const remote = isDir(target)
+                            ? join(target, basename(local))
+                            : target;
+                        if (action === "put") {
+                            entries.set(remote, "file");
+                            return [`Uploading ${local} to ${remote}`];
+                        }
+                        return entries.has(remote)
+                            ? [`Resuming upload of ${local} to ${remote}`]
+                            : [
+                                `Resuming upload of ${local} to ${remote}`,
+                                "stat remote: No such file or directory",
+                            ];
+                    })
+                    .with("get", () => {
+                        const [remote, local = basename(remote)] = args.filter(
+                            (arg) => !arg.startsWith("-"),
+                        );
+                        if (entries.get(remote) !== "file") {
+                            return [`File "${remote}" not found.`];
+                        }
+                        Deno.writeTextFileSync(
+                            resolve(cwd, local),
+                            "hello world!",
+                        );
+                        return [`Fetching ${remote} to ${local}`];
+                    })
+                    .with(
+                        "reget",
+                        () =>
+                            entries.has(from)
+                                ? [`Resuming ${from} to ${path}`]
+                                : [`File "${from}" not found.`],
+                    )
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+    return { sftpClient, commands, tree };
+}
+
+Deno.test("SftpClient mkdir, rmdir, rm and rmRecursive", async () => {
+    const { sftpClient, commands, tree } = createRemoteFsClient([
+        "/srv/",
+        "/srv/releases/",
+        "/srv/releases/41/",
+        "/srv/releases/41/index.html",
+        "/srv/releases/41/assets/",
+        "/srv/releases/41/assets/app.js",
+    ]);
+
+    await sftpClient.mkdir("/srv/releases/42/assets", { recursive: true });
+    assert(tree().includes("/srv/releases/42/assets/"));
+    await sftpClient.mkdir("/srv/releases/42", { recursive: true });
+    await assertRejects(() => sftpClient.mkdir("/srv/releases/42"));
+    await sftpClient.mkdir("/srv/releases/43");
+
+    await sftpClient.rmdir("/srv/releases/43");
+    await assertRejects(
+        () => sftpClient.rmdir("/srv/releases/42"),
+        Error,
+        `rmdir '/srv/releases/42' failed: remote rmdir "/srv/releases/42": Failure`,
+    );
+    await assertRejects(
+        () => sftpClient.rm("/srv/releases/41/missing.txt"),
+        NoSuchFileError,
+    );
+
+    commands.length = 0;
+    await sftpClient.rmRecursive("/srv/releases/41/");
+    assertEquals(commands, [
+        'ls -la "/srv/releases"',
+        'ls -la "/srv/releases/41"',
+        'ls -la "/srv/releases/41/assets"',
+        'rm "/srv/releases/41/index.html"',
+        'rm "/srv/releases/41/assets/app.js"',
+        'rmdir "/srv/releases/41/assets"',
+        'rmdir "/srv/releases/41"',
+    ]);
+    assertEquals(tree(), [
+        "/srv/",
+        "/srv/releases/",
+        "/srv/releases/42/",
+        "/srv/releases/42/assets/",
+    ]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient rmRecursive removes names with spaces and globs literally", async () => {
+    const { sftpClient, commands, tree } = createRemoteFsClient([
+        "/srv/",
+        "/srv/old release/",
+        "/srv/old release/a b*.txt",
+        "/srv/a bX.txt",
+    ]);
+
+    await sftpClient.rmRecursive("/srv/old release");
+    assertEquals(commands, [
+        'ls -la "/srv"',
+        'ls -la "/srv/old release"',
+        'rm "/srv/old release/a b*.txt"',
+        'rmdir "/srv/old release"',
+    ]);
+    assertEquals(tree(), ["/srv/", "/srv/a bX.txt"]);
+
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient rename, symlink and hardlink", async () => {
+    const { sftpClient, tree } = createRemoteFsClient([
+        "/srv/",
+        "/srv/releases/",
+        "/srv/releases/41/",
+        "/srv/releases/42/",
+        "/srv/current -> releases/41",
+        "/srv/app.conf",
+    ]);
+
+    // the release symlink switch: create the new symlink next to the old one and rename it over the old one
+    await sftpClient.symlink("releases/42", "/srv/current.new");
+    await assertRejects(
+        () => sftpClient.rename("/srv/current.new", "/srv/current"),
+        FileExistsError,
+    );
+    await sftpClient.rename("/srv/current.new", "/srv/current", {
+        overwrite: true,
+    });
+    await sftpClient.hardlink("/srv/app.conf", "/srv/releases/42/app.conf");
+    await assertRejects(
+        () => sftpClient.symlink("releases/41", "/srv/current"),
+        Error,
+        "symlink '/srv/current' -> 'releases/41' failed",
+    );
+    await assertRejects(
+        () => sftpClient.rename("/srv/missing", "/srv/other"),
+        NoSuchFileError,
+    );
+
+    assertEquals(tree(), [
+        "/srv/",
+        "/srv/app.conf",
+        "/srv/current -> releases/42",
+        "/srv/releases/",
+        "/srv/releases/41/",
+        "/srv/releases/42/",
+        "/srv/releases/42/app.conf",
+    ]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient rename with overwrite removes the target on servers without posix-rename", async () => {
+    const { sftpClient, commands, tree } = createRemoteFsClient([
+        "/srv/",
+        "/srv/data.csv",
+        "/srv/data.csv.tmp",
+    ], { posixRename: false });
+
+    await sftpClient.rename("/srv/data.csv.tmp", "/srv/data.csv", {
+        overwrite: true,
+    });
+    assertEquals(commands, [
+        'rename "/srv/data.csv.tmp" "/srv/data.csv"',
+        'ls -la "/srv"',
+        'ls -la "/srv"',
+        'rm "/srv/data.csv"',
+        'rename "/srv/data.csv.tmp" "/srv/data.csv"',
+    ]);
+    assertEquals(tree(), ["/srv/", "/srv/data.csv"]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient rename with overwrite keeps the target, when the source is missing", async () => {
+    const { sftpClient, commands, tree } = createRemoteFsClient([
+        "/srv/",
+        "/srv/data.csv",
+    ], { posixRename: false });
+
+    await assertRejects(
+        () =>
+            sftpClient.rename("/srv/missing", "/srv/data.csv", {
+                overwrite: true,
+            }),
+        NoSuchFileError,
+    );
+    assertEquals(commands, ['rename "/srv/missing" "/srv/data.csv"']);
+    assertEquals(tree(), ["/srv/", "/srv/data.csv"]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient chmod, chown and chgrp", async () => {
+    const { sftpClient, commands } = createRemoteFsClient([
+        "/srv/",
+        "/srv/www/",
+        "/srv/www/index.html",
+        "/srv/www/assets/",
+        "/srv/www/assets/app.js",
+        "/srv/www/current -> assets",
+    ]);
+
+    await sftpClient.chmod("/srv/www/index.html", 0o640);
+    await sftpClient.chmod("/srv/www/index.html", "600");
+    await sftpClient.chown("/srv/www/index.html", 1000);
+    assertEquals(commands, [
+        'chmod 640 "/srv/www/index.html"',
+        'chmod 600 "/srv/www/index.html"',
+        'chown 1000 "/srv/www/index.html"',
+    ]);
+
+    commands.length = 0;
+    await sftpClient.chmod("/srv/www", "g+w", { recursive: true });
+    // added permissions: the directories before their content
+    assertEquals(commands.filter((command) => command.startsWith("chmod")), [
+        'chmod 775 "/srv/www"',
+        'chmod 775 "/srv/www/assets"',
+        'chmod 664 "/srv/www/assets/app.js"',
+        'chmod 664 "/srv/www/index.html"',
+    ]);
+
+    commands.length = 0;
+    await sftpClient.chmod("/srv/www", "o-rx", { recursive: true });
+    // removed permissions: the content before its directories
+    assertEquals(commands.filter((command) => command.startsWith("chmod")), [
+        'chmod 640 "/srv/www/assets/app.js"',
+        'chmod 750 "/srv/www/assets"',
+        'chmod 640 "/srv/www/index.html"',
+        'chmod 750 "/srv/www"',
+    ]);
+
+    commands.length = 0;
+    await sftpClient.chgrp("/srv/www", 33, { recursive: true });
+    assertEquals(commands.filter((command) => command.startsWith("chgrp")), [
+        'chgrp 33 "/srv/www/assets/app.js"',
+        'chgrp 33 "/srv/www/assets"',
+        'chgrp 33 "/srv/www/index.html"',
+        'chgrp 33 "/srv/www"',
+    ]);
+
+    await assertRejects(
+        () => sftpClient.chmod("/srv/missing.txt", 0o644),
+        NoSuchFileError,
+        `chmod '/srv/missing.txt' failed: remote setstat "/srv/missing.txt": No such file or directory`,
+    );
+    await assertRejects(
+        () => sftpClient.chmod("/srv/www", "u+q"),
+        Error,
+        "Invalid file mode",
+    );
+    await assertRejects(
+        () => sftpClient.chown("/srv/www", -1),
+        Error,
+        "Invalid uid",
+    );
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient stat, exists, isFile and isDirectory", async () => {
+    const { sftpClient, commands } = createRemoteFsClient([
+        "/srv/",
+        "/srv/www/",
+        "/srv/www/index.html",
+        "/srv/www/current -> index.html",
+    ]);
+
+    const fileStat = await sftpClient.stat("/srv/www/index.html");
+    assertEquals(commands, ['ls -lan "/srv/www/index.html"']);
+    assertEquals(
+        { ...fileStat, mtime: undefined },
+        {
+            path: "/srv/www/index.html",
+            type: "file",
+            size: 12,
+            mode: 0o644,
+            uid: 1000,
+            gid: 1000,
+            mtime: undefined,
+        },
+    );
+    assertEquals(fileStat.mtime.getMonth(), 9);
+
+    const dirStat = await sftpClient.stat("/srv/www");
+    assertEquals([dirStat.type, dirStat.mode], ["directory", 0o755]);
+    assertEquals(
+        (await sftpClient.stat("/srv/www/current")).type,
+        "symlink",
+    );
+    assertEquals(
+        (await sftpClient.ls("/srv/www", { numericIds: true })).map((
+            entry,
+        ) => [entry.name, entry.owner]),
+        [[".", "1000"], ["index.html", "1000"], ["current", "1000"]],
+    );
+
+    await assertRejects(
+        () => sftpClient.stat("/srv/missing"),
+        NoSuchFileError,
+        `ls '/srv/missing' failed: "/srv/missing" not found`,
+    );
+    assertEquals(await sftpClient.exists("/srv/www/index.html"), true);
+    assertEquals(await sftpClient.exists("/srv/missing"), false);
+    assertEquals(await sftpClient.isFile("/srv/www/index.html"), true);
+    assertEquals(await sftpClient.isFile("/srv/www"), false);
+    assertEquals(await sftpClient.isFile("/srv/missing"), false);
+    assertEquals(await sftpClient.isDirectory("/srv/www"), true);
+    assertEquals(await sftpClient.isDirectory("/srv/www/index.html"), false);
+    assertEquals(await sftpClient.isDirectory("/srv/missing"), false);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient df and the checkSpace pre-flight check of uploads", async () => {
+    const localDir = await Deno.makeTempDir();
+    await Deno.mkdir(`${localDir}/dist`);
+    await Deno.writeTextFile(`${localDir}/dist/a.bin`, "a".repeat(1500));
+    await Deno.writeTextFile(`${localDir}/dist/b.bin`, "b".repeat(1500));
+
+    // 2 kilobytes available in the remote cwd, plenty in /srv
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "memory-host",
+        cwd: localDir,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                const [action, ...args] = splitSftpCommand(command);
+                const path = args.at(-1);
+                return match(action)
+                    .with("df", () =>
+                        // sftp prints nothing, when statvfs fails
+                        path === "/srv/www/new" ? [] : args[0] === "-i"
+                            ? [
+                                "     Inodes        Used       Avail      (root)    %Capacity",
+                                "     131072       32768       98304       98304          25%",
+                            ]
+                            : [
+                                "        Size         Used        Avail       (root)    %Capacity",
+                                path?.startsWith("/srv")
+                                    ? "    10485760      5242880      5242880      5242880          50%"
+                                    : "        4096         2048            2            2          99%",
+                            ])
+                    .with("put", () => [`Uploading ${args[0]} to ${path}`])
+                    .with("mkdir", () => [])
+                    .otherwise(() => undefined);
+            },
+        }),
+    });
+
+    assertEquals(await sftpClient.df("/srv", { inodes: true }), {
+        path: "/srv",
+        size: 10485760 * 1024,
+        used: 5242880 * 1024,
+        available: 5242880 * 1024,
+        availableToRoot: 5242880 * 1024,
+        capacityPercent: 50,
+        inodes: {
+            total: 131072,
+            used: 32768,
+            available: 98304,
+            availableToRoot: 98304,
+            capacityPercent: 25,
+        },
+    });
+    assertEquals((await sftpClient.df()).available, 2048);
+    await assertRejects(
+        () => sftpClient.df("/srv/www/new"),
+        UnknownSftpError,
+        "df '/srv/www/new' failed: no values (the path may not exist)",
+    );
+
+    commands.length = 0;
+    const error = await assertRejects(
+        () =>
+            sftpClient.uploadFiles(["dist/a.bin", "dist/b.bin"], {
+                checkSpace: true,
+            }),
+        InsufficientSpaceError,
+        "3000 bytes to upload, 2048 bytes available",
+    );
+    assertEquals(
+        [error.requiredBytes, error.availableBytes],
+        [3000, 2048],
+    );
+    assertEquals(commands, ["df"]);
+
+    // the missing target directory falls back to its parent
+    commands.length = 0;
+    await sftpClient.uploadDirectory("dist", "/srv/www/new", {
+        checkSpace: true,
+    });
+    assertEquals(commands.slice(0, 2), ['df "/srv/www/new"', 'df "/srv/www"']);
+    assertEquals(commands.filter((command) => command.startsWith("put")), [
+        `put "${localDir}/dist/a.bin" "/srv/www/new/a.bin"`,
+        `put "${localDir}/dist/b.bin" "/srv/www/new/b.bin"`,
+    ]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient resumes uploads and downloads", async () => {
+    const localDir = await Deno.makeTempDir();
+    // the fake remote files have 12 bytes
+    await Deno.writeTextFile(`${localDir}/complete.txt`, "hello world!");
+    await Deno.writeTextFile(`${localDir}/partial.txt`, "hello world, again!");
+    await Deno.writeTextFile(`${localDir}/new.txt`, "new");
+    // the remote cwd is "."
+    const { sftpClient, commands } = createRemoteFsClient([
+        "./",
+        "complete.txt",
+        "partial.txt",
+        "/srv/",
+        "/srv/complete.txt",
+        "/srv/partial.txt",
+    ], { cwd: localDir });
+
+    const progress: TransferProgress[] = [];
+    assertEquals(
+        await sftpClient.uploadFile("complete.txt", "/srv/complete.txt", {
+            resume: true,
+            onProgress: (event) => progress.push(event),
+        }),
+        true,
+    );
+    assertEquals(
+        progress.map(({ bytesTransferred, percent, done }) => ({
+            bytesTransferred,
+            percent,
+            done,
+        })),
+        [{ bytesTransferred: 12, percent: 100, done: true }],
+    );
+
+    commands.length = 0;
+    await sftpClient.uploadFiles(["complete.txt", "partial.txt", "new.txt"], {
+        resume: true,
+    });
+    // an upload into a directory is compared with the file in the directory
+    await sftpClient.uploadFile("partial.txt", "/srv", { resume: true });
+    assertEquals(
+        commands.filter((command) => !command.startsWith("ls")),
+        [
+            'reput "partial.txt"',
+            'put "new.txt"',
+            'reput "partial.txt" "/srv"',
+        ],
+    );
+
+    commands.length = 0;
+    assertEquals(
+        await sftpClient.downloadFile("/srv/partial.txt", "partial.txt", {
+            resume: true,
+        }),
+        "partial.txt",
+    );
+    await assertRejects(
+        () =>
+            sftpClient.downloadFile("/srv/missing.txt", "missing.txt", {
+                resume: true,
+            }),
+        NoSuchFileError,
+    );
+    assertEquals(commands, [
+        'reget "/srv/partial.txt" "partial.txt"',
+        'reget "/srv/missing.txt" "missing.txt"',
+    ]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient atomic uploads rename a temporary file into place", async () => {
+    const localDir = await Deno.makeTempDir();
+    // the fake remote files have 12 bytes
+    await Deno.writeTextFile(`${localDir}/data.csv`, "a;b;c\n1;2;3\n");
+    await Deno.writeTextFile(`${localDir}/other.csv`, "a;b\n1;2\n");
+    const { sftpClient, commands, tree } = createRemoteFsClient([
+        "./",
+        "/srv/",
+        "/srv/import/",
+        "/srv/import/data.csv",
+    ], { cwd: localDir });
+
+    await sftpClient.uploadFile("data.csv", "/srv/import", { atomic: true });
+    const putCommand = commands.find((command) => command.startsWith("put"));
+    const tempPath = splitSftpCommand(putCommand ?? "")[2] ?? "";
+    assertMatch(tempPath, /^\/srv\/import\/\.data\.csv\.[0-9a-f-]{36}\.tmp$/);
+    assertEquals(
+        commands.filter((command) => !command.startsWith("ls")),
+        [
+            `put "data.csv" "${tempPath}"`,
+            `rename "${tempPath}" "/srv/import/data.csv"`,
+        ],
+    );
+    assertEquals(tree(), [
+        "./",
+        "/srv/",
+        "/srv/import/",
+        "/srv/import/data.csv",
+    ]);
+
+    // the size check fails => the temporary file is removed
+    commands.length = 0;
+    await assertRejects(
+        () => sftpClient.uploadFiles(["other.csv"], { atomic: true }),
+        UnknownSftpError,
+        "has 12 instead of 8 bytes",
+    );
+    assertEquals(
+        commands.filter((command) => !command.startsWith("ls")).map((
+            command,
+        ) => command.replace(/[0-9a-f-]{36}/, "<uuid>")),
+        [
+            'put "other.csv" ".other.csv.<uuid>.tmp"',
+            'rm ".other.csv.<uuid>.tmp"',
+        ],
+    );
+    assertEquals(tree(), [
+        "./",
+        "/srv/",
+        "/srv/import/",
+        "/srv/import/data.csv",
+    ]);
+
+    await assertRejects(
+        () =>
+            sftpClient.uploadFile("data.csv", "/srv/import", {
+                atomic: true,
+                resume: true,
+            }),
+        Error,
+        "can not be combined",
+    );
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient atomic uploads keep the target, when the temporary file vanished", async () => {
+    const localDir = await Deno.makeTempDir();
+    await Deno.writeTextFile(`${localDir}/data.csv`, "a;b;c\n1;2;3\n");
+    const { sftpClient, tree } = createRemoteFsClient([
+        "./",
+        "/srv/",
+        "/srv/import/",
+        "/srv/import/data.csv",
+    ], {
+        cwd: localDir,
+        posixRename: false,
+        // e.g. removed by a cleanup job on the server
+        onCommand: (command, entries) => {
+            const [action, tempPath] = splitSftpCommand(command);
+            if (action === "rename") {
+                entries.delete(tempPath);
+            }
+        },
+    });
+
+    await assertRejects(
+        () =>
+            sftpClient.uploadFile("data.csv", "/srv/import", { atomic: true }),
+        NoSuchFileError,
+    );
+    assertEquals(tree(), [
+        "./",
+        "/srv/",
+        "/srv/import/",
+        "/srv/import/data.csv",
+    ]);
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient verifies transfers", async () => {
+    const localDir = await Deno.makeTempDir();
+    // the fake remote files have 12 bytes and are downloaded as "hello world!"
+    await Deno.writeTextFile(`${localDir}/data.csv`, "hello world!");
+    await Deno.writeTextFile(`${localDir}/changed.csv`, "hello world?");
+    await Deno.writeTextFile(`${localDir}/short.csv`, "hello");
+    const { sftpClient, commands } = createRemoteFsClient(
+        ["./", "/srv/", "/srv/import/"],
+        { cwd: localDir },
+    );
+
+    assertEquals(
+        await sftpClient.uploadFile("data.csv", "/srv/import", {
+            verify: true,
+        }),
+        {
+            transferType: "upload",
+            localPath: join(localDir, "data.csv"),
+            remotePath: "/srv/import/data.csv",
+            mode: "size",
+            size: 12,
+        },
+    );
+
+    // the remote mtime of the fake listing
+    const { mtime } = parseLsLine(
+        "-rw-r--r--    1 deploy   deploy         12 Oct 23 09:41 data.csv",
+    )!;
+    await Deno.utime(`${localDir}/data.csv`, mtime, mtime);
+    commands.length = 0;
+    const verification = await sftpClient.uploadFile(
+        "data.csv",
+        "/srv/import/data.csv",
+        { verify: "size+mtime" },
+    );
+    assertEquals(verification.mtime, mtime);
+    assertEquals(commands[0], 'put -p "data.csv" "/srv/import/data.csv"');
+
+    assertEquals(
+        (await sftpClient.uploadFiles(["data.csv"], { verify: "sha256" }))
+            .map((verification) => verification.sha256),
+        ["7509e5bda0c762d2bac7f90d758b5b2263fa01ccbc542ab5e3df163be08e6ca9"],
+    );
+    const hashMismatch = await assertRejects(
+        () =>
+            sftpClient.uploadFile("changed.csv", "/srv/import", {
+                verify: "sha256",
+            }),
+        VerificationError,
+        "failed the sha256 verification",
+    );
+    assertEquals(hashMismatch.check, "sha256");
+    const sizeMismatch = await assertRejects(
+        () => sftpClient.uploadFile("short.csv", undefined, { verify: true }),
+        VerificationError,
+        "failed the size verification: local 5, remote 12",
+    );
+    assertEquals(
+        [sizeMismatch.localValue, sizeMismatch.remoteValue],
+        ["5", "12"],
+    );
+
+    const download = await sftpClient.downloadFile(
+        "/srv/import/data.csv",
+        "download.csv",
+        { verify: "sha256" },
+    );
+    assertEquals(download.localPath, join(localDir, "download.csv"));
+    assertEquals(download.transferType, "download");
+    await sftpClient.close();
+});
+
+Deno.test("SftpClient logMode: normal", async () => {
+    const logger = createRecordingLogger();
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("logmode", { logger, logMode: "normal" }),
+    );
+    await sftpClient.connected;
+    await sftpClient.pwd();
+    await sftpClient.close();
+
+    const messages = logger.records.map((record) => record.message);
+    assert(
+        messages.includes("fake_sftp: -> Welcome to the fake sftp server"),
+    );
+    assert(messages.some((message) => message.includes("connected to")));
+    assertEquals(
+        logger.records.filter((record) => record.level === "debug"),
+        [],
+    );
+});
+
+Deno.test("SftpClient logMode: verbose", async () => {
+    const logger = createRecordingLogger();
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("logmode", { logger, logMode: "verbose" }),
+    );
+    await sftpClient.connected;
+    await sftpClient.pwd();
+    await sftpClient.close();
+
+    assert(
+        logger.records.some((record) =>
+            record.level === "debug" &&
+            record.message ===
+                "fake_sftp: rawOut: Remote working directory: /home/tester"
+        ),
+    );
+});
+
+Deno.test("SftpClient logMode: silent", async () => {
+    const logger = createRecordingLogger();
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("logmode", { logger, logMode: "silent" }),
+    );
+    await sftpClient.connected;
+    await sftpClient.pwd();
+    await sftpClient.close();
+
+    assertEquals(logger.records, []);
+});
+
+Deno.test("SftpClient logMode: only-unknown", async () => {
+    const logger = createRecordingLogger();
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("logmode", { logger, logMode: "only-unknown" }),
+    );
+    await sftpClient.connected;
+    await sftpClient.pwd();
+    await sftpClient.close();
+
+    assertEquals(logger.records, [
+        {
+            level: "log",
+            message: "fake_sftp: -> Welcome to the fake sftp server",
+        },
+    ]);
+});
+
+Deno.test("SftpClient logMode: unknown-and-error", async () => {
+    const logger = createRecordingLogger();
+    const sftpClient = new SftpClient(
+        fakeSftpOptions("exit_failure", {
+            logger,
+            logMode: "unknown-and-error",
+        }),
+    );
+    await sftpClient.connected;
+    const error = await assertRejects(() => sftpClient.close());
+    assertInstanceOf(error, Error);
+
+    assertEquals(logger.records[0], {
+        level: "log",
+        message: "fake_sftp: -> Welcome to the fake sftp server",
+    });
+    assert(
+        logger.records.slice(1).every((record) => record.level === "error"),
+    );
+    assert(
+        logger.records.some((record) =>
+            record.message === "fake_sftp: Error while exiting sftp client"
+        ),
+    );
+});
@@ -1,28 +1,102 @@
-import { PuppetProcess } from "@codemonument/puppet-process/deno";
 import {
     filter,
     simpleCallbackTarget,
     stringToLines,
 } from "@codemonument/rx-webstreams";
+import { delay } from "@std/async";
+import { basename, dirname, isAbsolute, join, resolve } from "@std/path";
+import {
+    basename as basenameRemote,
+    dirname as dirnameRemote,
+    isAbsolute as isAbsoluteRemote,
+    join as joinRemote,
+    normalize as normalizeRemote,
+} from "@std/path/posix";
+import { randomUUID } from "node:crypto";
+import { mkdir, mkdtemp, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
 import pDefer, { type DeferredPromise } from "p-defer";
 import pMap from "p-map";
-import { concatMap, from, Observable } from "rxjs";
+import {
+    concatMap,
+    defer,
+    from,
+    lastValueFrom,
+    Observable,
+    Subject,
+    toArray,
+} from "rxjs";
 import { match, P } from "ts-pattern";
+import type { ConnectionOptions } from "./ConnectionOptions.type.ts";
+import type {
+    DirectoryDownloadResult,
+    DirectoryTransfer,
+    DirectoryTransferOptions,
+} from "./DirectoryTransfer.type.ts";
+import type {
+    DfOptions,
+    DiskUsage,
+    SpaceCheckOptions,
+} from "./DiskUsage.type.ts";
 import type { GenericLogger } from "./GenericLogger.type.ts";
+import { applyFileMode } from "./internal/applyFileMode.ts";
+import { buildSftpArgs } from "./internal/buildSftpArgs.ts";
+import { createPathFilter } from "./internal/createPathFilter.ts";
+import { createSftpError } from "./internal/createSftpError.ts";
+import {
+    createSyncPlan,
+    type RemoteTreeEntry,
+} from "./internal/createSyncPlan.ts";
+import { type DfRow, parseDfOutput } from "./internal/parseDfOutput.ts";
+import { matchesLsMtime, parseLsOutput } from "./internal/parseLsOutput.ts";
+import { quoteSftpPath } from "./internal/quoteSftpPath.ts";
+import { sha256File } from "./internal/sha256File.ts";
+import {
+    CHANGE_ANNOUNCEMENT,
+    DOWNLOAD_ANNOUNCEMENT,
+    UPLOAD_ANNOUNCEMENT,
+} from "./internal/sftpOutputMatchers.ts";
 import { SwitchableLogger } from "./internal/SwitchableLogger.ts";
+import { TransferProgressTracker } from "./internal/TransferProgressTracker.ts";
+import { walkLocalDir } from "./internal/walkLocalDir.ts";
+import {
+    defaultBackoff,
+    type ReconnectEvent,
+    type ReconnectOptions,
+} from "./ReconnectOptions.type.ts";
+import type { RemoteEntry, RemoteStat } from "./RemoteEntry.type.ts";
+import {
+    ConnectionClosedError,
+    ConnectTimeoutError,
+    FileExistsError,
+    InsufficientSpaceError,
+    NoSuchFileError,
+    PermissionDeniedError,
+    SftpError,
+    UnknownSftpError,
+    VerificationError,
+} from "./SftpError.ts";
+import type { SyncOptions, SyncPlan, SyncProgress } from "./SyncPlan.type.ts";
+import type {
+    BatchTransferProgress,
+    TransferOptions,
+    TransferProgress,
+} from "./TransferProgress.type.ts";
+import type {
+    TransferVerification,
+    VerifyMode,
+} from "./TransferVerification.type.ts";
+import { ChildProcessTransport } from "./transports/ChildProcessTransport.ts";
+import type {
+    SftpTransport,
+    TransportStartOptions,
+} from "./transports/SftpTransport.type.ts";
 
 /**
  * The options for instantiating a new SftpClient.
+ * For the connection options (host, user, port, ...) see {@link ConnectionOptions}.
  */
-export type ClientOptions = {
-    /**
-     * The sftp host to connect to. This should be the alias of the host in your ~/.ssh/config file.
-     * Note: You should configure all your ssh connection details in your ~/.ssh/config file.
-     * I've set up `my-alias`, so that I can simply pass { host: 'my-alias' } to the constructor.
-     * Your configuration is correct, when you can connect to the server manually via `sftp my-alias`.
-     */
-    host: string;
-
+export type ClientOptions = ConnectionOptions & {
     /**
      * The local working directory where the sftp cli is initialized.
      * (You can later navigate locally or remotely with the `sftp lcd` and `sftp cd` commands.)
@@ -37,6 +111,34 @@ export type ClientOptions = {
      */
     uploaderName: string;
 
+    /**
+     * The sftp executable to start, either a command in the PATH or a path to an executable file.
+     * Can be used to point to a custom sftp build or to a fake sftp executable for tests.
+     * Default: "sftp"
+     */
+    executable?: string;
+
+    /**
+     * The transport, which starts the sftp cli process and connects its stdin and output to this SftpClient.
+     * Available: ChildProcessTransport, PuppetProcessTransport, ExecaTransport (from `@codemonument/sftp-client/execa`) and InMemoryTransport (for tests).
+     * Default: new ChildProcessTransport()
+     */
+    transport?: SftpTransport;
+
+    /**
+     * The time in milliseconds to wait for the connection to the remote server.
+     * When it elapses, the sftp cli is killed and `connected` rejects with a ConnectTimeoutError.
+     * Default: 30000
+     */
+    connectTimeoutMs?: number;
+
+    /**
+     * Opt-in: restart the sftp cli automatically, when it exits unexpectedly after the connection was established.
+     * See {@link ReconnectOptions} and `SftpClient.reconnect$` for the events.
+     * Default: undefined (no reconnect)
+     */
+    reconnect?: ReconnectOptions;
+
     /**
      * Can be used to pass in a custom logger.
      * Default: console
@@ -58,6 +160,119 @@ export type ClientOptions = {
         | "unknown-and-error";
 };
 
+/**
+ * The local directory, which is used for the end marker of each command (see SftpClient.writeEndMarker()).
+ * It must not exist on the local machine.
+ */
+const END_MARKER_DIR = "/sftp-client-end-marker";
+
+/**
+ * How often the size of the local file is checked during a download with progress reporting
+ */
+const PROGRESS_POLL_INTERVAL_MS = 500;
+
+/**
+ * Detects output lines of the sftp cli (or the underlying ssh), which tell that the connection could not be established.
+ * The matching error class is chosen by createSftpError().
+ */
+const CONNECTION_FAILURE =
+    /Permission denied|Too many authentication failures|Host key verification failed|Could not resolve hostname|Connection (closed|refused|timed out|reset)|Connection to .* closed/i;
+
+/**
+ * Rejects user and group ids, which the sftp cli would not accept
+ */
+function assertNumericId(name: string, id: number) {
+    if (!Number.isInteger(id) || id < 0) {
+        throw new Error(
+            `Invalid ${name}: ${id}, the sftp cli only accepts numeric ids`,
+        );
+    }
+}
+
+/**
+ * Whether a relative path (of walkRemoteDir) is inside of a relative directory ("" is the walked directory itself)
+ */
+function isInsideDir(relativePath: string, relativeDir: string) {
+    return relativeDir === "" || relativePath.startsWith(`${relativeDir}/`);
+}
+
+/**
+ * A command in the command queue of the SftpClient.
+ * The queue is processed in FIFO order and only one command is sent to the sftp cli at a time,
+ * so that every output line can be attributed to the command which caused it.
+ */
+type QueuedCommand<T> = {
+    /**
+     * A unique id of this command (per SftpClient instance), also used for the end marker
+     */
+    id: number;
+
+    /**
+     * The sftp command line, like `cd some/remote/dir`
+     */
+    command: string;
+
+    /**
+     * All output lines of this command (without the echo of the command itself and without the end marker)
+     */
+    output: string[];
+
+    /**
+     * Tracks which parts of the end marker output were already received (see SftpClient.writeEndMarker())
+     */
+    endMarker: { echo: boolean; error: boolean };
+
+    /**
+     * Optional - called for each output line as soon as it arrives, e.g. to announce transfers while they are running
+     */
+    onOutputLine?(line: string): void;
+
+    /**
+     * Resolves or rejects the pending promise based on the complete output of this command.
+     * Called when the end marker of this command was received.
+     */
+    settle(output: string[], pending: DeferredPromise<T>): void;
+
+    /**
+     * The deferred promise which is returned to the caller of the command method
+     */
+    pending: DeferredPromise<T>;
+};
+
+/**
+ * The options for {@link SftpClient.ls}.
+ */
+export type LsOptions = {
+    /**
+     * Whether to list in long format (`ls -l`).
+     * Long format is required to get typed {@link RemoteEntry} objects, the short format only returns the names.
+     * Default: true
+     */
+    long?: boolean;
+
+    /**
+     * Whether to include entries starting with a dot (`ls -a`).
+     * Note: this also includes the `.` and `..` entries.
+     * Default: false
+     */
+    all?: boolean;
+
+    /**
+     * Whether to print numeric user and group ids instead of names (`ls -n`, implies the long format).
+     * With `-n`, the sftp cli formats the lines itself (with the mtime in the local time zone),
+     * otherwise it prints the lines of the server (with the mtime in the time zone of the server).
+     * Default: false
+     */
+    numericIds?: boolean;
+};
+
+/**
+ * The options for {@link SftpClient.uploadFiles} and {@link SftpClient.uploadFiles$}.
+ */
+export type UploadFilesOptions =
+    & SpaceCheckOptions
+    & Pick<TransferOptions, "resume" | "atomic" | "verify">;
+
 /**
  * This type is used to detect the completion of an up or download
  */
@@ -122,10 +337,10 @@ export type FileTransferInProgress =
          * 1. The file transfer is started => Deferred promise is created
          * 2. The promise part of this DeferredPromise object is awaited by some part of the program
          * 3. The file transfer is completed
-         *    => The promise is resolved
+         *    => The promise is resolved with the local path of the downloaded file
          *    => The part waiting for the completion of the promise is notified of the completion of the transfer
          */
-        pending: DeferredPromise<boolean>;
+        pending: DeferredPromise<string>;
     };
 
 /**
@@ -134,50 +349,112 @@ export type FileTransferInProgress =
  */
 export class SftpClient {
     private logger: SwitchableLogger;
-    private client: PuppetProcess;
-    private clientOut: ReadableStream<string>;
-    private clientIn: WritableStreamDefaultWriter<string>;
-
-    // Commands in Progress Handling
-    private inProgress: {
-        pwd?: { pending: DeferredPromise<string> };
-        cd?: {
-            remotePath: string;
-            pending: DeferredPromise<void>;
-        };
-        [key: string]: {
-            pending: DeferredPromise<unknown>;
-        } | undefined;
-    } = {};
+    private logMode: NonNullable<ClientOptions["logMode"]>;
+    private transport: SftpTransport;
+    private transportOptions: TransportStartOptions;
+
+    /**
+     * The host of the connection (a host name or an ssh config alias, as passed in the ClientOptions)
+     */
+    public readonly host: string;
+
+    private connectTimeoutMs: number;
+    private clientOut!: ReadableStream<string>;
+    private clientIn!: WritableStreamDefaultWriter<string>;
+
+    // Connection Handling
+    // Commands are only sent to the sftp cli after the connection was established
+    private connectionState:
+        | "connecting"
+        | "connected"
+        | "disconnected"
+        | "failed" = "connecting";
+    private connectionError?: SftpError;
+    private connectTimeout?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Settles with the connection result of the current sftp cli process
+     */
+    private processConnected = pDefer<boolean>();
+
+    /**
+     * Settles with the connection result of the session, see `connected`.
+     * Replaced by a new deferred, when a reconnect starts.
+     */
+    private connectedDeferred = pDefer<boolean>();
+
+    /**
+     * The output lines of the sftp cli before the connection was established
+     */
+    private connectOutput: string[] = [];
+
+    // Reconnect Handling
+    private reconnectOptions?: ReconnectOptions;
+    private reconnectEvents = new Subject<ReconnectEvent>();
+    private reconnectAbort = new AbortController();
+
+    /**
+     * True, when the process is exited on purpose via close() or kill() - no reconnect in this case
+     */
+    private closing = false;
+
+    /**
+     * The remote and local working directories after the last successful cd and lcd,
+     * which are restored after a reconnect
+     */
+    private remoteCwd?: string;
+    private localCwd?: string;
+
+    // Command Queue Handling
+    // The first command in the queue is the one currently running in the sftp cli
+    private commandQueue: QueuedCommand<unknown>[] = [];
+    private commandIsRunning = false;
+    private lastCommandId = 0;
 
     /**
-     * Includes all file paths for which an upload is in progress
-     * key: local file path
-     * value: FileTransferInProgress object
+     * Includes all uploads which are queued or in progress
+     * (not keyed by local path, because one file can be uploaded to multiple destinations at the same time)
      */
-    private uploadInProgress = new Map<string, FileTransferInProgress>();
+    private uploadInProgress = new Set<FileTransferInProgress>();
 
     /**
      * Includes all remote dir paths for which a mkdir is in progress
      */
     private mkdirInProgress = new Map<string, DeferredPromise<boolean>>();
 
-    // TODO: Implement downloadInProgress later
+    /**
+     * Includes all downloads which are queued or in progress
+     */
+    private downloadInProgress = new Set<FileTransferInProgress>();
 
     // Public Properties
     public uploaderName = "SftpClient";
-    public readonly connected: Promise<boolean>;
+
+    /**
+     * Emits the events of the automatic reconnect, see `reconnect` in the ClientOptions.
+     * Completes when the SftpClient is closed.
+     */
+    public readonly reconnect$: Observable<ReconnectEvent> = this
+        .reconnectEvents.asObservable();
 
     constructor(
         {
             cwd,
-            host,
             uploaderName,
+            executable = "sftp",
+            transport = new ChildProcessTransport(),
             logger: genericLogger = console,
             logMode = "normal",
+            connectTimeoutMs = 30_000,
+            reconnect,
+            ...connectionOptions
         }: ClientOptions,
     ) {
         this.uploaderName = uploaderName;
+        this.logMode = logMode;
+        this.host = connectionOptions.host;
+        this.connectTimeoutMs = connectTimeoutMs;
+        this.reconnectOptions = reconnect;
 
         // Setup logMode
         if (logMode === "unknown-and-error") {
@@ -197,379 +474,2588 @@ export class SftpClient {
             );
         }
 
-        // Setup the PuppetProcess
-        this.client = new PuppetProcess({
-            command: `sftp ${host}`,
+        // Setup the transport and start the sftp cli process
+        this.transport = transport;
+        this.transportOptions = {
+            command: executable,
+            args: buildSftpArgs(connectionOptions),
+            cwd,
             logger: this.logger,
-            cwd, // specify a working directory
-        });
+        };
+        this.startProcess();
 
-        // Setup public "connected"-Promise
-        const connectedDeferred = pDefer<boolean>();
-        this.connected = connectedDeferred.promise;
+        // a failed connection is also reported to the pending commands,
+        // so it must not be an unhandled rejection when nobody awaits `connected`
+        this.connectedDeferred.promise.catch(() => {});
+        this.processConnected.promise.then(
+            () => this.connectedDeferred.resolve(true),
+            (error) => this.failSession(error),
+        );
+    }
+
+    /**
+     * Resolves with true, when the sftp cli is connected to the remote server.
+     * Rejects when the connection could not be established:
+     * - AuthenticationError, HostKeyVerificationError, HostNotFoundError or ConnectionClosedError, detected from the sftp output
+     * - ConnectionClosedError, when the sftp cli exited before the connection was established
+     * - ConnectTimeoutError, when `connectTimeoutMs` elapsed
+     *
+     * All commands wait for the connection and reject with the same error, when it fails.
+     * While a reconnect is running, this is the promise of the reconnect.
+     */
+    public get connected(): Promise<boolean> {
+        return this.connectedDeferred.promise;
+    }
+
+    /**
+     * Starts the sftp cli process via the transport and interprets its output
+     */
+    private startProcess() {
+        const { uploaderName, host } = this;
+
+        this.connectionState = "connecting";
+        this.connectOutput = [];
+        this.processConnected = pDefer<boolean>();
+        this.processConnected.promise.catch(() => {});
+
+        this.transport.start(this.transportOptions);
+
+        this.connectTimeout = setTimeout(() => {
+            this.failConnection(
+                new ConnectTimeoutError(
+                    `connecting to ${host} failed: no connection after ${this.connectTimeoutMs}ms`,
+                    { command: "connect", output: this.connectOutput },
+                ),
+            );
+            this.transport.kill().catch(() => {
+                // the sftp cli exited already
+            });
+        }, this.connectTimeoutMs);
 
         // Setup this.clientIn
         // --------------------
-        this.clientIn = this.client.std_in.getWriter();
+        this.clientIn = this.transport.stdin;
 
         // Setup this.clientOut
         // --------------------
-        const clientOutRaw = this.client.std_all;
+        const clientOutRaw = this.transport.output;
 
         this.clientOut = clientOutRaw
             .pipeThrough(stringToLines())
             .pipeThrough(filter((line: string) => line.trim() !== ""));
 
         // capture and interpret output of the sftp cli
-        this.clientOut.pipeTo(
-            simpleCallbackTarget((line) => {
-                this.logger.debug(`${uploaderName}: rawOut: ${line}`);
+        const outputClosed = this.clientOut.pipeTo(
+            simpleCallbackTarget((rawLine) => {
+                this.logger.debug(`${uploaderName}: rawOut: ${rawLine}`);
+
+                // error messages of the sftp cli end with "\r\n" instead of "\n"
+                const line = rawLine.trimEnd();
+                const runningCommand = this.commandIsRunning
+                    ? this.commandQueue[0]
+                    : undefined;
+                const endMarkerPath = runningCommand
+                    ? `${END_MARKER_DIR}/${runningCommand.id}`
+                    : undefined;
 
                 // use ts-pattern to match over the output line string
                 // String based matching patterns: https://github.com/gvergnaud/ts-pattern?tab=readme-ov-file#pstring-predicates
                 match(line)
-                    .with(P.string.startsWith("Connected"), () => {
-                        connectedDeferred.resolve(true);
-                        this.logger.info(
-                            `${uploaderName}: connected to ${host}`,
-                        );
-                    })
-                    .with(
-                        // detects this line:
-                        // Uploading some/local/path/file.ext to some/remote/path/file.ext
-                        P.string.startsWith("Uploading "),
-                        () => {
-                            const [_uploading, localPath, _to, remotePath] =
-                                line;
-                            const upload = this.uploadInProgress.get(localPath);
-                            if (!upload) {
-                                this.logger.error(
-                                    `${uploaderName}: STATE_MISSMATCH: internal sftp cli announced an upload", but the FileTransferInProgress state was not found!`,
-                                    { localPath, remotePath },
-                                );
-                                return;
-                            }
-                            this.logger.info(
-                                `${uploaderName}: Uploaded ${localPath} to ${remotePath}`,
-                            );
-                            upload.pending.resolve(true);
-                        },
-                    )
                     .with(
-                        // detects this line: Remote working directory: /home/tt-bj2
-                        // => is the answer to the pwd command
-                        P.string.startsWith("Remote working directory:"),
-                        () => {
-                            const [_part1, remotePath] = line.split(":");
-                            this.resolveInProgress("pwd", remotePath.trim());
-                        },
+                        P.string.startsWith("Connected"),
+                        // after connecting, a line like this is the output of a command (e.g. a file "Connected.log")
+                        () => this.connectionState === "connecting",
+                        () => this.markConnected(),
                     )
+                    .when(() => this.connectionState === "connecting", () => {
+                        // output before the connection was established, like banners or connection errors
+                        this.receiveConnectLine(line);
+                    })
                     .with(
-                        // Failure answer to the `cd` command
-                        // detects: "-bash: cd: playground: No such file or directory"
-                        P.string.startsWith("-bash: cd:"),
-                        () => {
-                            const [_bash, _cd, remotePath, reason] = line.split(
-                                ":",
-                            );
-                            this.rejectInProgress(
-                                "cd",
-                                `cd into '${remotePath.trim()}' failed: ${reason.trim()}`,
-                            );
-                        },
+                        // the echo of the end marker of the running command (see writeEndMarker)
+                        `sftp> lcd ${endMarkerPath}`,
+                        () => this.receiveEndMarkerPart("echo"),
                     )
                     .with(
-                        // Another failure answer to the `cd` command
-                        // detects: "stat remote: No such file or directory"
-                        P.string.startsWith(`stat remote:`),
-                        () => {
-                            const [_prefix, reason] = line.split(
-                                ":",
-                            );
-                            const cdCommand = this.inProgress.cd;
-                            this.rejectInProgress(
-                                "cd",
-                                `cd into '${cdCommand?.remotePath}' failed: ${reason.trim()}`,
-                            );
-                        },
+                        // the error of the end marker of the running command (see writeEndMarker)
+                        // detects: Couldn't change local directory to "/sftp-client-end-marker/1": No such file or directory
+                        P.string.includes(`"${endMarkerPath}"`),
+                        () => this.receiveEndMarkerPart("error"),
                     )
                     .with(P.string.startsWith("sftp>"), () => {
-                        // resolve all commands, which do not return anything in case of success
-                        // ----------------------------------------------------------------------
-                        if (this.inProgress.cd) {
-                            this.resolveInProgress("cd", undefined);
-                        }
-
-                        // prompt line
-                        // const [_prompt, action, ...rest] = line.split(" ");
-                        // const sftpCommand = `${action} ${rest.join(" ")}`;
-                        // action can be switched over the sftp commands, like put, cd, etc.
-                        // switch (action) {
-                        // "cd": {}
-                        // "pwd": {}
-                        // }
+                        // echo of the running command
+                        this.logger.debug(`${uploaderName}: ${line}`);
+                    })
+                    .when(() => runningCommand !== undefined, () => {
+                        // all other lines are the output of the running command
+                        runningCommand?.output.push(line);
+                        runningCommand?.onOutputLine?.(line);
                     })
                     .otherwise(() => {
                         // some other unrecognized stdout/stderr line
-                        if (logMode === "only-unknown") {
-                            this.logger.logMode = "normal";
-                            this.logger.log(`${uploaderName}: -> ${line}`);
-                            this.logger.logMode = "silent";
-                        } else if (logMode === "unknown-and-error") {
-                            this.logger.logMode = "normal";
-                            this.logger.log(`${uploaderName}: -> ${line}`);
-                            this.logger.logMode = "error";
-                        } else {
-                            // pure silent log mode will be handled by the logger itself
-                            this.logger.log(`${uploaderName}: -> ${line}`);
-                        }
+                        this.logUnknown(line);
                     });
             }),
         );
 
-        // start the sftp client process
-        this.client.start();
-
         // detect exit
-        this.client.waitForExit().then(() => {
-            this.logger.info(
-                `${uploaderName}: SFTP Connection exited successfully`,
-            );
-        }).catch((error) => {
-            this.logger.error(
-                `${uploaderName}: SFTP Connection exited unsuccessful`,
-                error,
-            );
+        this.transport.exited.then(async ({ success, code, error }) => {
+            // the remaining output may contain the reason of the exit
+            await outputClosed.catch(() => {});
+
+            if (this.connectionState === "connecting") {
+                this.failConnection(
+                    new ConnectionClosedError(
+                        `connecting to ${host} failed: the sftp cli exited before the connection was established`,
+                        {
+                            command: "connect",
+                            output: this.connectOutput,
+                            cause: error,
+                        },
+                    ),
+                );
+            }
+            const wasConnected = this.connectionState === "connected";
+            if (wasConnected) {
+                this.connectionState = "disconnected";
+            }
+
+            if (success) {
+                this.logger.info(
+                    `${uploaderName}: SFTP Connection exited successfully`,
+                );
+            } else {
+                this.logger.error(
+                    `${uploaderName}: SFTP Connection exited unsuccessful with code ${code}`,
+                    error,
+                );
+            }
+
+            if (wasConnected && this.reconnectOptions && !this.closing) {
+                this.reconnect(error);
+                return;
+            }
+            if (wasConnected) {
+                this.rejectQueuedCommands(
+                    success
+                        ? "the sftp cli exited"
+                        : "the sftp cli exited unsuccessful",
+                    error,
+                );
+                this.connectionState = "failed";
+                this.connectionError = new ConnectionClosedError(
+                    `the connection to ${host} is closed`,
+                    { command: "connect", cause: error },
+                );
+            }
         });
     }
 
     /**
-     * @param sftpCommand The sftp command to send to the sftp cli
-     * see here for sftp cli docs: https://www.cs.fsu.edu/~myers/howto/commandLineSSH.html
-     * To see a full list of SFTP commands and their formats, you can type help when you are logged in via sftp, and it will give you a list of available commands.
+     * Marks the connection as established and starts sending the queued commands
      */
-    public sendCommand(sftpCommand: string): Promise<void> {
-        return this.clientIn.write(`${sftpCommand}\n`);
+    private markConnected() {
+        if (this.connectionState !== "connecting") {
+            return;
+        }
+        this.connectionState = "connected";
+        clearTimeout(this.connectTimeout);
+        this.processConnected.resolve(true);
+        this.logger.info(`${this.uploaderName}: connected to ${this.host}`);
+        this.runNextCommand();
     }
 
     /**
-     * Get the remote working directory
+     * Handles an output line of the sftp cli before the connection was established.
+     * Fails the connection, if the line tells that the connection could not be established.
+     *
+     * Examples:
+     * - "deploy@example.com: Permission denied (publickey)."
+     * - "Host key verification failed."
+     * - "ssh: Could not resolve hostname nothere: Name or service not known"
      */
-    public async pwd(): Promise<string> {
-        this.inProgress.pwd = {
-            pending: pDefer<string>(),
-        };
-        await this.sendCommand("pwd");
-        return this.inProgress.pwd.pending.promise;
+    private receiveConnectLine(line: string) {
+        this.connectOutput.push(line);
+        if (!CONNECTION_FAILURE.test(line)) {
+            this.logUnknown(line);
+            return;
+        }
+        this.failConnection(
+            createSftpError(`connecting to ${this.host} failed: ${line}`, {
+                command: "connect",
+                output: this.connectOutput,
+            }),
+        );
     }
 
     /**
-     * TODO: caputre output of the ls command and return as Promise<string[]>
-     * @param remotePath optional - if not provided, the current remote directory will be listed
+     * Rejects the connection of the current sftp cli process with the given error
      */
-    public async ls(remotePath?: string) {
-        if (remotePath) {
-            await this.sendCommand(`ls ${remotePath}`);
-        } else {
-            await this.sendCommand("ls");
+    private failConnection(error: SftpError) {
+        if (this.connectionState !== "connecting") {
+            return;
         }
+        this.connectionState = "disconnected";
+        clearTimeout(this.connectTimeout);
+        this.logger.error(`${this.uploaderName}: ${error.message}`);
+        this.processConnected.reject(error);
     }
 
     /**
-     * TODO: capture output of the lls command and return as Promise<string[]>
-     * @param localPath optional - the local path of the file to download
+     * Rejects the `connected` promise and all queued commands with the given error.
+     * Commands, which are queued later, are rejected immediately with the same error.
      */
-    public async lls(localPath?: string) {
-        if (localPath) {
-            await this.sendCommand(`lls ${localPath}`);
-        } else {
-            await this.sendCommand("lls");
+    private failSession(error: SftpError) {
+        this.connectionState = "failed";
+        this.connectionError = error;
+        this.connectedDeferred.reject(error);
+
+        this.commandIsRunning = false;
+        for (const queuedCommand of this.commandQueue.splice(0)) {
+            queuedCommand.pending.reject(error);
         }
     }
 
     /**
-     * @param remotePath required - the remote path to cd into
+     * Restarts the sftp cli process after it exited unexpectedly, see `reconnect` in the ClientOptions.
+     * The running command is rejected or sent again (see ReconnectOptions.inFlight),
+     * the queued commands are sent after the last remote and local working directories were restored.
      */
-    public async cd(remotePath: string): Promise<void> {
-        this.inProgress.cd = {
-            remotePath,
-            pending: pDefer<void>(),
-        };
-        await this.sendCommand(`cd ${remotePath}`);
-        return this.inProgress.cd.pending.promise;
-    }
+    private async reconnect(cause: unknown) {
+        const {
+            retries,
+            backoff = defaultBackoff,
+            inFlight = "reject",
+        } = this.reconnectOptions ?? { retries: 0 };
 
-    /**
-     * @param localPath required - the local path to locally cd into
-     */
-    public async lcd(localPath: string) {
-        await this.sendCommand(`lcd ${localPath}`);
+        this.connectedDeferred = pDefer<boolean>();
+        this.connectedDeferred.promise.catch(() => {});
+        this.reconnectEvents.next({ type: "disconnected", cause });
+        this.logger.warn(
+            `${this.uploaderName}: the sftp cli exited unexpectedly, reconnecting`,
+        );
+
+        const runningCommand = this.commandIsRunning
+            ? this.commandQueue[0]
+            : undefined;
+        this.commandIsRunning = false;
+        if (runningCommand && inFlight === "retry") {
+            runningCommand.output = [];
+            runningCommand.endMarker = { echo: false, error: false };
+        } else if (runningCommand) {
+            this.commandQueue.shift();
+            runningCommand.pending.reject(
+                new ConnectionClosedError(
+                    `'${runningCommand.command}' failed: the sftp cli exited while the command was running`,
+                    {
+                        command: runningCommand.command,
+                        output: runningCommand.output,
+                        cause,
+                    },
+                ),
+            );
+        }
+        this.commandQueue.unshift(...this.createRestoreCommands());
+
+        let lastError: SftpError = new ConnectionClosedError(
+            `reconnecting to ${this.host} failed: no retries left`,
+            { command: "connect", cause },
+        );
+        for (let attempt = 1; attempt <= retries; attempt++) {
+            const delayMs = typeof backoff === "function"
+                ? backoff(attempt)
+                : backoff;
+            this.reconnectEvents.next({
+                type: "reconnecting",
+                attempt,
+                delayMs,
+            });
+
+            try {
+                await delay(delayMs, { signal: this.reconnectAbort.signal });
+            } catch {
+                lastError = new ConnectionClosedError(
+                    `reconnecting to ${this.host} failed: the SftpClient was closed`,
+                    { command: "connect", cause },
+                );
+                break;
+            }
+
+            this.startProcess();
+            try {
+                await this.processConnected.promise;
+                this.logger.info(
+                    `${this.uploaderName}: reconnected to ${this.host} (attempt ${attempt})`,
+                );
+                this.reconnectEvents.next({ type: "reconnected", attempt });
+                this.connectedDeferred.resolve(true);
+                return;
+            } catch (error) {
+                lastError = error instanceof SftpError ? error : lastError;
+                this.reconnectEvents.next({
+                    type: "reconnect-failed",
+                    attempt,
+                    error: lastError,
+                });
+            }
+        }
+
+        this.logger.error(
+            `${this.uploaderName}: reconnecting to ${this.host} failed`,
+            lastError,
+        );
+        this.reconnectEvents.next({ type: "failed", error: lastError });
+        this.failSession(lastError);
     }
 
     /**
-     * Shows the help menu of the sftp cli with explanations for each command and format
+     * Creates the commands, which restore the last remote and local working directories after a reconnect.
+     * When restoring fails, the session fails, because the queued commands might use relative paths.
      */
-    public async help() {
-        await this.sendCommand(`help`);
+    private createRestoreCommands(): QueuedCommand<unknown>[] {
+        const restore = [
+            ["cd", this.remoteCwd],
+            ["lcd", this.localCwd],
+        ].filter((entry): entry is [string, string] => entry[1] !== undefined);
+
+        return restore.map(([action, path]) => {
+            const command = this.createQueuedCommand<void>(
+                `${action} ${quoteSftpPath(path)}`,
+                (output, pending) => {
+                    if (output.length === 0) {
+                        pending.resolve();
+                        return;
+                    }
+                    pending.reject(
+                        createSftpError(
+                            `restoring the working directory '${path}' after the reconnect failed: ${
+                                output.join("\n")
+                            }`,
+                            {
+                                command: `${action} ${quoteSftpPath(path)}`,
+                                paths: [path],
+                                output,
+                            },
+                        ),
+                    );
+                },
+            );
+            command.pending.promise.catch((error) => {
+                this.failSession(error);
+                this.transport.kill().catch(() => {});
+            });
+            return command as QueuedCommand<unknown>;
+        });
     }
 
     /**
-     * @param localPath required - the local path of the file to upload
-     * @param remotePath optional - if not provided, the file will be uploaded to the current remote directory
+     * Logs a line of the sftp cli output, which is not known to this SftpClient wrapper class.
+     * Respects the "only-unknown" and "unknown-and-error" logModes, which always log these lines.
      */
-    private prepareFileUploadCommand(localPath: string, remotePath?: string) {
-        let command = `put ${localPath}`;
-        if (remotePath) {
-            command += ` ${remotePath}`;
+    private logUnknown(line: string) {
+        if (this.logMode === "only-unknown") {
+            this.logger.logMode = "normal";
+            this.logger.log(`${this.uploaderName}: -> ${line}`);
+            this.logger.logMode = "silent";
+        } else if (this.logMode === "unknown-and-error") {
+            this.logger.logMode = "normal";
+            this.logger.log(`${this.uploaderName}: -> ${line}`);
+            this.logger.logMode = "error";
+        } else {
+            // pure silent log mode will be handled by the logger itself
+            this.logger.log(`${this.uploaderName}: -> ${line}`);
         }
-
-        const uploadInProgress = {
-            transferType: "upload",
-            localPath,
-            remotePath: remotePath ?? undefined,
-            pending: pDefer<boolean>(),
-            command,
-        } satisfies FileTransferInProgress;
-
-        this.uploadInProgress.set(localPath, uploadInProgress);
-
-        return uploadInProgress;
     }
 
     /**
-     * Uploads a file to the remote server.
-     * @param localPath The local file to upload
-     * @param remotePath optional - the remote path to upload the file to, if undefined: use the remote cwd
-     * @returns resolves when the upload is completed
+     * Writes one line to the stdin of the sftp cli, bypassing the command queue
      */
-    public async uploadFile(
-        localPath: string,
-        remotePath?: string,
-    ): Promise<boolean> {
-        const uploadInProgress = this.prepareFileUploadCommand(
-            localPath,
-            remotePath,
-        );
-        await this.sendCommand(uploadInProgress.command);
-        return uploadInProgress.pending.promise;
+    private writeLine(line: string): Promise<void> {
+        return this.clientIn.write(`${line}\n`);
     }
 
     /**
-     * Uploads multiple files to the remote server (serially).
-     * @param files The local files to upload
-     * @returns A Promise which resolves when all uploads are completed
+     * Creates a command for the command queue, without adding it to the queue
      */
-    public async uploadFiles(files: Iterable<string>): Promise<boolean[]> {
-        const result = await pMap(
-            files,
-            (file: string) => this.uploadFile(file),
-            { concurrency: 1 },
-        );
-        return result;
+    private createQueuedCommand<T>(
+        command: string,
+        settle: QueuedCommand<T>["settle"],
+        onOutputLine?: QueuedCommand<T>["onOutputLine"],
+    ): QueuedCommand<T> {
+        return {
+            id: ++this.lastCommandId,
+            command,
+            output: [],
+            endMarker: { echo: false, error: false },
+            onOutputLine,
+            settle,
+            pending: pDefer<T>(),
+        };
     }
 
     /**
-     * Uploads multiple files to the remote server (serially).
-     * @param files
-     * @returns An rxjs observable instead of a promise like in this.uploadFiles
+     * Adds a command to the command queue.
+     * @param command the sftp command line
+     * @param settle resolves or rejects the returned promise based on the output lines of the command
+     * @param onOutputLine optional - called for each output line as soon as it arrives
+     * @returns a promise, which is settled by the `settle` function when the command is completed
      */
-    public uploadFiles$(
-        files: Iterable<string>,
-    ): Observable<{ file: string; nr: number }> {
-        return from(files).pipe(
-            concatMap((file, index) => {
-                const uploadPromise = this.uploadFile(file).then(() => ({
-                    file,
-                    nr: index + 1,
-                }));
-                //convert the promise from uploadFile to an observable (will be flattened by concatMap)
-                return from(uploadPromise);
-            }),
+    private enqueueCommand<T>(
+        command: string,
+        settle: QueuedCommand<T>["settle"],
+        onOutputLine?: QueuedCommand<T>["onOutputLine"],
+    ): Promise<T> {
+        const queuedCommand = this.createQueuedCommand(
+            command,
+            settle,
+            onOutputLine,
         );
+        if (this.connectionError) {
+            queuedCommand.pending.reject(this.connectionError);
+            return queuedCommand.pending.promise;
+        }
+        this.commandQueue.push(queuedCommand as QueuedCommand<unknown>);
+        this.runNextCommand();
+        return queuedCommand.pending.promise;
     }
 
     /**
-     * TODO: add downloadInProgress handling
-     * @param remotePath
-     * @param localPath
+     * Sends the first command of the queue to the sftp cli, if the connection is established and no other command is running
      */
-    public async downloadFile(remotePath: string, localPath?: string) {
-        let command = `get ${remotePath}`;
-        if (localPath) {
-            command += ` ${localPath}`;
+    private runNextCommand() {
+        const nextCommand = this.commandQueue[0];
+        if (
+            this.connectionState !== "connected" || this.commandIsRunning ||
+            !nextCommand
+        ) {
+            return;
         }
-        await this.sendCommand(command);
+        this.commandIsRunning = true;
+
+        this.writeLine(nextCommand.command)
+            .then(() => this.writeEndMarker(nextCommand.id))
+            .catch((error) => {
+                // the sftp cli exited, the command is rejected or sent again by the exit handling (see startProcess)
+                this.logger.debug(
+                    `${this.uploaderName}: sending '${nextCommand.command}' to the sftp cli failed`,
+                    error,
+                );
+            });
     }
 
     /**
-     * Hard kill of the inner sftp client process
-     * @returns
+     * Writes the end marker for the running command.
+     *
+     * The sftp cli echoes every command it reads from stdin as "sftp> <command>" to stdout,
+     * but errors of a command are written to stderr, which may arrive later than stdout in the merged output.
+     * Therefore the end marker is a command, which produces output on both streams:
+     * an `lcd` into a local directory, which does not exist.
+     * - stdout: sftp> lcd /sftp-client-end-marker/1
+     * - stderr: Couldn't change local directory to "/sftp-client-end-marker/1": No such file or directory
+     * When both lines arrived, all output of the running command has been received.
      */
-    public async kill(): Promise<void> {
-        // close input stream before killing
-        await this.clientIn.close();
-        await this.client.kill();
+    private writeEndMarker(commandId: number): Promise<void> {
+        return this.writeLine(`lcd ${END_MARKER_DIR}/${commandId}`);
     }
 
     /**
-     * @returns A promise that resolves when the client could be closed correctly
-     * @throws Error if the sftp client could not be closed correctly
+     * Registers one received part of the end marker of the running command
+     * and completes the command, when both parts were received.
      */
-    public async close(): Promise<void> {
-        await this.sendCommand("exit");
+    private receiveEndMarkerPart(part: "echo" | "error") {
+        const runningCommand = this.commandQueue[0];
+        if (!this.commandIsRunning || !runningCommand) {
+            return;
+        }
+        runningCommand.endMarker[part] = true;
+        if (!runningCommand.endMarker.echo || !runningCommand.endMarker.error) {
+            return;
+        }
 
-        // close input stream before exiting
-        await this.clientIn.close();
+        this.commandQueue.shift();
+        this.commandIsRunning = false;
 
         try {
-            await this.client.waitForExit();
+            runningCommand.settle(
+                runningCommand.output,
+                runningCommand.pending,
+            );
         } catch (error) {
-            this.logger.error(
-                `${this.uploaderName}: Error while exiting sftp client`,
-                error,
+            runningCommand.pending.reject(
+                error instanceof SftpError ? error : new UnknownSftpError(
+                    `handling the output of '${runningCommand.command}' failed`,
+                    {
+                        command: runningCommand.command,
+                        output: runningCommand.output,
+                        cause: error,
+                    },
+                ),
+            );
+        }
+
+        this.runNextCommand();
+    }
+
+    /**
+     * Rejects all queued commands, because the sftp cli exited
+     * @param reason a description of the exit, used in the error messages
+     * @param cause optional - the error of the exit, if any
+     */
+    private rejectQueuedCommands(reason: string, cause?: unknown) {
+        const queuedCommands = this.commandQueue.splice(0);
+        this.commandIsRunning = false;
+
+        for (const queuedCommand of queuedCommands) {
+            queuedCommand.pending.reject(
+                new ConnectionClosedError(
+                    `'${queuedCommand.command}' failed: ${reason}`,
+                    {
+                        command: queuedCommand.command,
+                        output: queuedCommand.output,
+                        cause,
+                    },
+                ),
+            );
+        }
+    }
+
+    /**
+     * @param sftpCommand The sftp command to send to the sftp cli
+     * see here for sftp cli docs: https://www.cs.fsu.edu/~myers/howto/commandLineSSH.html
+     * To see a full list of SFTP commands and their formats, you can type help when you are logged in via sftp, and it will give you a list of available commands.
+     * @returns resolves with the output lines of the command, when the command is completed.
+     *          Note: the output is not interpreted, so this promise also resolves when the command failed.
+     */
+    public sendCommand(sftpCommand: string): Promise<string[]> {
+        return this.enqueueCommand<string[]>(
+            sftpCommand,
+            (output, pending) => pending.resolve(output),
+        );
+    }
+
+    /**
+     * Get the remote working directory
+     */
+    public pwd(): Promise<string> {
+        return this.enqueueCommand<string>("pwd", (output, pending) => {
+            // detects this line: Remote working directory: /home/tt-bj2
+            const answer = output.find((line) =>
+                line.startsWith("Remote working directory:")
+            );
+            if (!answer) {
+                pending.reject(
+                    createSftpError(`pwd failed: ${output.join("\n")}`, {
+                        command: "pwd",
+                        output,
+                    }),
+                );
+                return;
+            }
+            pending.resolve(
+                answer.slice("Remote working directory:".length).trim(),
+            );
+        });
+    }
+
+    /**
+     * Lists a remote directory (or a single remote file).
+     * @param remotePath optional - if not provided, the current remote directory will be listed
+     * @param options optional - see {@link LsOptions}
+     * @returns the parsed entries of `ls -l` or only the names, if `long: false` is passed
+     */
+    public ls(
+        remotePath?: string,
+        options?: LsOptions & { long?: true },
+    ): Promise<RemoteEntry[]>;
+    public ls(
+        remotePath: string | undefined,
+        options: LsOptions & { long: false },
+    ): Promise<string[]>;
+    public ls(
+        remotePath?: string,
+        { long = true, all = false, numericIds = false }: LsOptions = {},
+    ): Promise<RemoteEntry[] | string[]> {
+        // `-1` forces one name per line for the short format
+        const flags = `-${long || numericIds ? "l" : "1"}${all ? "a" : ""}${
+            numericIds ? "n" : ""
+        }`;
+        const command = remotePath
+            ? `ls ${flags} ${quoteSftpPath(remotePath)}`
+            : `ls ${flags}`;
+
+        return this.enqueueCommand<RemoteEntry[] | string[]>(
+            command,
+            (output, pending) => {
+                // Failure answer to the `ls` command
+                // detects: Can't ls: "/home/tt-bj2/nothere" not found
+                const errorLine = output.find((line) =>
+                    line.startsWith("Can't ls:")
+                );
+                if (errorLine) {
+                    const reason = errorLine.slice("Can't ls:".length).trim();
+                    pending.reject(
+                        createSftpError(
+                            `ls '${remotePath ?? "."}' failed: ${reason}`,
+                            { command, paths: [remotePath ?? "."], output },
+                        ),
+                    );
+                    return;
+                }
+
+                // sftp prefixes the names with the listed path in the short format and with `-n`
+                const prefix = remotePath
+                    ? `${remotePath.replace(/\/+$/, "")}/`
+                    : "";
+                const stripPrefix = (name: string) =>
+                    prefix && name.startsWith(prefix)
+                        ? name.slice(prefix.length)
+                        : name;
+
+                if (!long && !numericIds) {
+                    pending.resolve(
+                        output.map((line) => stripPrefix(line.trim())),
+                    );
+                    return;
+                }
+
+                const { entries, unparsed } = parseLsOutput(output);
+                for (const line of unparsed) {
+                    this.logUnknown(line);
+                }
+                pending.resolve(
+                    entries.map((entry) => ({
+                        ...entry,
+                        name: stripPrefix(entry.name),
+                    })),
+                );
+            },
+        );
+    }
+
+    /**
+     * Resolves the status of a remote path via `ls -lan`.
+     * @param remotePath the remote file or directory
+     * @returns the type, size, mode, numeric owner ids and mtime of the path
+     * @throws NoSuchFileError, if the path does not exist
+     */
+    public async stat(remotePath: string): Promise<RemoteStat> {
+        const entries = await this.ls(remotePath, {
+            all: true,
+            numericIds: true,
+        });
+        // a directory lists its content, including "." for itself
+        const entry = entries.find((entry) => entry.name === ".") ??
+            (entries.length === 1 ? entries[0] : undefined);
+        if (!entry) {
+            throw new UnknownSftpError(
+                `stat '${remotePath}' failed: the path matches ${entries.length} entries`,
+                {
+                    command: `ls -lan ${quoteSftpPath(remotePath)}`,
+                    paths: [remotePath],
+                },
             );
+        }
+        return {
+            path: remotePath,
+            type: entry.type,
+            size: entry.size,
+            mode: entry.mode,
+            uid: Number(entry.owner),
+            gid: Number(entry.group),
+            mtime: entry.mtime,
+        };
+    }
+
+    /**
+     * Checks whether a remote path exists
+     * @returns false, if the path does not exist (other errors reject)
+     */
+    public exists(remotePath: string): Promise<boolean> {
+        return this.statOrUndefined(remotePath).then((stat) => !!stat);
+    }
+
+    /**
+     * Checks whether a remote path is a regular file
+     * @returns false, if the path does not exist or is no regular file
+     */
+    public isFile(remotePath: string): Promise<boolean> {
+        return this.statOrUndefined(remotePath).then((stat) =>
+            stat?.type === "file"
+        );
+    }
+
+    /**
+     * Checks whether a remote path is a directory (or a symlink to a directory)
+     * @returns false, if the path does not exist or is no directory
+     */
+    public isDirectory(remotePath: string): Promise<boolean> {
+        return this.statOrUndefined(remotePath).then((stat) =>
+            stat?.type === "directory"
+        );
+    }
+
+    /**
+     * Like {@link stat}, but resolves undefined for missing paths
+     */
+    private async statOrUndefined(
+        remotePath: string,
+    ): Promise<RemoteStat | undefined> {
+        try {
+            return await this.stat(remotePath);
+        } catch (error) {
+            if (error instanceof NoSuchFileError) {
+                return undefined;
+            }
             throw error;
         }
     }
 
-    private resolveInProgress(
-        command: string, // the command which was sent to the sftp cli (without args, like 'cd' or 'pwd)
-        value: unknown,
-    ) {
-        const lastCommand = this.inProgress[command];
+    /**
+     * Queries the usage of the remote file system via `df` (and `df -i` for the inode counts).
+     * Requires the statvfs@openssh.com extension on the server.
+     * @param remotePath optional - a path on the file system to query, if undefined: the remote cwd
+     * @param options optional - see {@link DfOptions}
+     * @returns the size, used and available bytes, the capacity and optionally the inode counts
+     */
+    public async df(
+        remotePath?: string,
+        { inodes = false }: DfOptions = {},
+    ): Promise<DiskUsage> {
+        const [blocks, inodeCounts] = await Promise.all([
+            this.dfRow(remotePath, ""),
+            inodes ? this.dfRow(remotePath, "-i") : undefined,
+        ]);
+        return {
+            path: remotePath ?? ".",
+            // sftp prints the sizes in kilobytes
+            size: blocks.total * 1024,
+            used: blocks.used * 1024,
+            available: blocks.available * 1024,
+            availableToRoot: blocks.availableToRoot * 1024,
+            capacityPercent: blocks.capacityPercent,
+            inodes: inodeCounts,
+        };
+    }
+
+    /**
+     * Sends one `df` command and parses its values
+     */
+    private dfRow(remotePath: string | undefined, flags: "" | "-i") {
+        const command = ["df", flags, remotePath && quoteSftpPath(remotePath)]
+            .filter(Boolean).join(" ");
+        return this.enqueueCommand<DfRow>(command, (output, pending) => {
+            const row = parseDfOutput(output);
+            if (row) {
+                pending.resolve(row);
+                return;
+            }
+            // detects: Server does not support statvfs@openssh.com extension
+            // sftp prints nothing, when the statvfs call fails (e.g. for a missing path)
+            const reason = output.map((line) => line.trim()).join(" ") ||
+                "no values (the path may not exist)";
+            pending.reject(
+                createSftpError(
+                    `df '${remotePath ?? "."}' failed: ${reason}`,
+                    { command, paths: [remotePath ?? "."], output },
+                ),
+            );
+        });
+    }
 
-        // this.logger.debug(
-        //     `Resolving in progress command '${command}' with value '${value}'`,
-        // );
+    /**
+     * The `checkSpace` pre-flight check of the uploads:
+     * compares the total size of the local files with the available space of the remote file system
+     * @param localPaths the local files (resolved against the local working directory of the sftp cli)
+     * @param remotePath the remote target directory, falls back to its parent, if it does not exist yet
+     * @throws InsufficientSpaceError, if the files do not fit
+     */
+    private async assertRemoteSpace(
+        localPaths: string[],
+        remotePath: string | undefined,
+    ): Promise<void> {
+        const sizes = await Promise.all(
+            localPaths.map(async (localPath) =>
+                (await stat(await this.resolveLocalPath(localPath))).size
+            ),
+        );
+        const requiredBytes = sizes.reduce((sum, size) => sum + size, 0);
 
-        if (!lastCommand) {
-            this.logger.error(
-                `DEV ERROR (should not happen in prod - make issue in github):
-                 this.inProgress['${command}'] is not set, but it should resolve in this function! - Logging the resolved value instead!
-                 Logging it as 'info' level, you might not see it, depending on your logMode given in constructor! 
-                 Default logMode is 'normal'.`,
+        const usage = await this.df(remotePath).catch((error) =>
+            error instanceof SftpError && remotePath
+                ? this.df(dirnameRemote(normalizeRemote(remotePath)))
+                : Promise.reject(error)
+        );
+        if (requiredBytes > usage.available) {
+            throw new InsufficientSpaceError(
+                `Not enough space on the remote file system for '${usage.path}': ${requiredBytes} bytes to upload, ${usage.available} bytes available`,
+                {
+                    command: `df ${quoteSftpPath(usage.path)}`,
+                    paths: [usage.path],
+                    requiredBytes,
+                    availableBytes: usage.available,
+                },
             );
-            this.logger.info(`${command}: ${value}`);
-            return;
         }
+    }
 
-        lastCommand.pending.resolve(value);
+    /**
+     * Lists a local directory (via the `ls` command of the local shell)
+     * @param localPath optional - the local path to list, if undefined: the local cwd of the sftp cli
+     * @returns the output lines of the local `ls` command
+     */
+    public lls(localPath?: string): Promise<string[]> {
+        return this.enqueueCommand<string[]>(
+            // sftp passes the arguments of `lls` to the local shell => quote them for the shell
+            localPath ? `lls '${localPath.replaceAll("'", `'\\''`)}'` : "lls",
+            (output, pending) => pending.resolve(output),
+        );
     }
-    private rejectInProgress(
-        command: string, // the command which was sent to the sftp cli (without args, like 'cd' or 'pwd)
-        errorMessage: string,
-    ) {
-        const lastCommand = this.inProgress[command];
 
-        if (!lastCommand) {
-            this.logger.error(
-                `DEV ERROR (should not happen in prod - make issue in github):
-                 this.lastNoOutputCommand is not set, but an error occurred for such command! - Logging the error instead!`,
+    /**
+     * @param remotePath required - the remote path to cd into
+     */
+    public cd(remotePath: string): Promise<void> {
+        const command = `cd ${quoteSftpPath(remotePath)}`;
+        return this.enqueueCommand<void>(
+            command,
+            (output, pending) => {
+                if (output.length === 0) {
+                    this.remoteCwd = this.remoteCwd === undefined ||
+                            isAbsoluteRemote(remotePath)
+                        ? remotePath
+                        : joinRemote(this.remoteCwd, remotePath);
+                    pending.resolve();
+                    return;
+                }
+
+                const reason = match(output[0])
+                    .with(
+                        // detects: "-bash: cd: playground: No such file or directory"
+                        P.string.startsWith("-bash: cd:"),
+                        (line) => line.split(":").slice(3).join(":"),
+                    )
+                    .with(
+                        // detects: "stat remote: No such file or directory"
+                        P.string.startsWith("stat remote:"),
+                        (line) => line.slice("stat remote:".length),
+                    )
+                    .otherwise((line) => line);
+
+                pending.reject(
+                    createSftpError(
+                        `cd into '${remotePath}' failed: ${reason.trim()}`,
+                        { command, paths: [remotePath], output },
+                    ),
+                );
+            },
+        );
+    }
+
+    /**
+     * @param localPath required - the local path to locally cd into
+     */
+    public lcd(localPath: string): Promise<void> {
+        const command = `lcd ${quoteSftpPath(localPath)}`;
+        return this.enqueueCommand<void>(
+            command,
+            (output, pending) => {
+                // detects: Couldn't change local directory to "/some/path": No such file or directory
+                if (output.length > 0) {
+                    pending.reject(
+                        createSftpError(
+                            `lcd into '${localPath}' failed: ${
+                                output.join("\n")
+                            }`,
+                            { command, paths: [localPath], output },
+                        ),
+                    );
+                    return;
+                }
+                this.localCwd = this.localCwd === undefined ||
+                        isAbsolute(localPath)
+                    ? localPath
+                    : join(this.localCwd, localPath);
+                pending.resolve();
+            },
+        );
+    }
+
+    /**
+     * Shows the help menu of the sftp cli with explanations for each command and format
+     * @returns the output lines of the help command
+     */
+    public help(): Promise<string[]> {
+        return this.enqueueCommand<string[]>(
+            "help",
+            (output, pending) => {
+                for (const line of output) {
+                    this.logger.info(`${this.uploaderName}: ${line}`);
+                }
+                pending.resolve(output);
+            },
+        );
+    }
+
+    /**
+     * Creates a remote directory.
+     * @param remotePath The remote directory to create
+     * @param options optional - `recursive: true` creates the missing parent directories
+     * and accepts an existing directory (like `mkdir -p`)
+     * @returns resolves when the directory exists
+     */
+    public async mkdir(
+        remotePath: string,
+        { recursive = false }: { recursive?: boolean } = {},
+    ): Promise<void> {
+        if (!recursive) {
+            // fails with: remote mkdir "/home/tt-bj2/playground": Failure
+            // or (older sftp versions): Couldn't create directory: Failure
+            return this.enqueueSilentCommand(
+                `mkdir ${quoteSftpPath(remotePath)}`,
+                `mkdir '${remotePath}'`,
+                [remotePath],
             );
-            this.logger.error(errorMessage);
-            return;
         }
 
-        lastCommand.pending.reject(errorMessage);
+        // walk the path segments: "/srv/releases/42" => "/srv", "/srv/releases", "/srv/releases/42"
+        const segments = normalizeRemote(remotePath).split("/");
+        const paths = segments
+            .map((_, index) => segments.slice(0, index + 1).join("/"))
+            .filter((path) => path !== "" && path !== "." && path !== "..");
+        // all mkdir commands are queued at once, parent directories first
+        await Promise.all(paths.map((path) => this.ensureRemoteDir(path)));
+    }
+
+    /**
+     * Removes an empty remote directory.
+     * @param remotePath The remote directory to remove
+     * @returns resolves when the directory is removed
+     */
+    public rmdir(remotePath: string): Promise<void> {
+        return this.removeRemote("rmdir", remotePath);
+    }
+
+    /**
+     * Removes a remote file.
+     * @param remotePath The remote file to remove
+     * @returns resolves when the file is removed
+     */
+    public rm(remotePath: string): Promise<void> {
+        return this.removeRemote("rm", remotePath);
+    }
+
+    /**
+     * Removes a remote file or directory including all its content (like `rm -r`).
+     * The directory is listed recursively, symlinks are removed, but not followed.
+     * @param remotePath The remote file or directory to remove
+     * @returns resolves when everything is removed
+     */
+    public async rmRecursive(remotePath: string): Promise<void> {
+        const path = normalizeRemote(remotePath).replace(/(.)\/+$/, "$1");
+        const name = basenameRemote(path);
+        if (name === "" || name === "." || name === ".." || path === "/") {
+            throw new Error(`rmRecursive: refusing to remove '${remotePath}'`);
+        }
+
+        // `ls` lists the target of a symlink => find the entry itself in the listing of its parent
+        const entry = await this.findRemoteEntry(path);
+        if (!entry) {
+            throw new NoSuchFileError(
+                `rmRecursive '${remotePath}' failed: not found`,
+                {
+                    command: `ls -la ${quoteSftpPath(dirnameRemote(path))}`,
+                    paths: [path],
+                },
+            );
+        }
+        if (entry.type !== "directory") {
+            return this.rm(path);
+        }
+
+        // children before their parent directories
+        const tree = (await this.walkRemoteDir(path)).reverse();
+        for (const { path: relativePath, entry } of tree) {
+            const entryPath = joinRemote(path, relativePath);
+            await (entry.type === "directory"
+                ? this.rmdir(entryPath)
+                : this.rm(entryPath));
+        }
+        await this.rmdir(path);
+    }
+
+    /**
+     * Runs `rm` or `rmdir` for one remote path
+     */
+    private removeRemote(
+        action: "rm" | "rmdir",
+        remotePath: string,
+    ): Promise<void> {
+        // rm announces each file with: Removing /home/tt-bj2/old.txt
+        // all other lines are error messages, like:
+        // remote delete /home/tt-bj2/old.txt: No such file or directory
+        // remote rmdir "/home/tt-bj2/releases": Failure
+        // or (older sftp versions): Couldn't remove directory: Failure
+        return this.enqueueSilentCommand(
+            `${action} ${quoteSftpPath(remotePath)}`,
+            `${action} '${remotePath}'`,
+            [remotePath],
+            (line) => CHANGE_ANNOUNCEMENT.test(line),
+        );
+    }
+
+    /**
+     * Renames or moves a remote file or directory.
+     *
+     * With `overwrite: true`, an existing target is replaced. This is atomic on servers with the
+     * posix-rename extension (like OpenSSH), which the sftp cli uses automatically.
+     * Other servers refuse to rename onto an existing path, then the target is removed first (not atomic).
+     * The target is kept, when the source does not exist or the rename is not permitted.
+     *
+     * @param fromPath The remote path to rename
+     * @param toPath The new remote path
+     * @param options optional - `overwrite: true` replaces an existing file or symlink at `toPath`
+     * @returns resolves when the rename is completed
+     * @throws FileExistsError, when `toPath` exists and `overwrite` is not set
+     */
+    public async rename(
+        fromPath: string,
+        toPath: string,
+        { overwrite = false }: { overwrite?: boolean } = {},
+    ): Promise<void> {
+        const command = `rename ${quoteSftpPath(fromPath)} ${
+            quoteSftpPath(toPath)
+        }`;
+        // fails with: remote rename "/home/tt-bj2/a" to "/home/tt-bj2/b": No such file or directory
+        const rename = () =>
+            this.enqueueSilentCommand(
+                command,
+                `rename '${fromPath}' to '${toPath}'`,
+                [fromPath, toPath],
+            );
+
+        if (!overwrite) {
+            // the sftp cli overwrites existing targets, when the server supports posix-rename
+            if (await this.findRemoteEntry(toPath)) {
+                throw new FileExistsError(
+                    `rename '${fromPath}' to '${toPath}' failed: the target exists`,
+                    { command, paths: [fromPath, toPath] },
+                );
+            }
+            return rename();
+        }
+
+        try {
+            await rename();
+        } catch (error) {
+            // a missing source or missing permissions would fail the rename again => keep the target
+            if (
+                error instanceof NoSuchFileError ||
+                error instanceof PermissionDeniedError ||
+                !(await this.findRemoteEntry(fromPath))
+            ) {
+                throw error;
+            }
+            const target = await this.findRemoteEntry(toPath);
+            if (!target || target.type === "directory") {
+                throw error;
+            }
+            // the server has no posix-rename => replace the target in two steps
+            await this.rm(toPath);
+            await rename();
+        }
+    }
+
+    /**
+     * Creates a remote symlink (`ln -s`).
+     * @param targetPath The path the symlink points to. A relative path is stored as is, so it is resolved relative to the symlink.
+     * @param linkPath The remote path of the new symlink
+     * @returns resolves when the symlink is created
+     */
+    public symlink(targetPath: string, linkPath: string): Promise<void> {
+        // fails with: remote symlink file "/srv/releases/42" to "/srv/current": Failure
+        return this.enqueueSilentCommand(
+            `ln -s ${quoteSftpPath(targetPath)} ${quoteSftpPath(linkPath)}`,
+            `symlink '${linkPath}' -> '${targetPath}'`,
+            [targetPath, linkPath],
+        );
+    }
+
+    /**
+     * Creates a remote hard link (`ln`).
+     * Note: the server must support the hardlink extension (like OpenSSH).
+     * @param targetPath The existing remote file
+     * @param linkPath The remote path of the new hard link
+     * @returns resolves when the hard link is created
+     */
+    public hardlink(targetPath: string, linkPath: string): Promise<void> {
+        // fails with: remote link "/srv/a.txt" to "/srv/b.txt": No such file or directory
+        // or: Server does not support hardlink@openssh.com extension
+        return this.enqueueSilentCommand(
+            `ln ${quoteSftpPath(targetPath)} ${quoteSftpPath(linkPath)}`,
+            `hardlink '${linkPath}' -> '${targetPath}'`,
+            [targetPath, linkPath],
+        );
+    }
+
+    /**
+     * Changes the permissions of a remote file or directory.
+     * Note: the sftp cli only accepts octal modes, symbolic modes are applied to the current mode of each file by this client.
+     * @param remotePath The remote file or directory
+     * @param mode An octal number like 0o755, an octal string like "755" or a symbolic mode like "g+w" or "u=rwX,go=rX"
+     * @param options optional - `recursive: true` changes the content of a directory, too (symlinks are not followed)
+     * @returns resolves when the permissions are changed
+     */
+    public chmod(
+        remotePath: string,
+        mode: number | string,
+        { recursive = false }: { recursive?: boolean } = {},
+    ): Promise<void> {
+        // throws early for invalid modes
+        const octalMode = typeof mode === "string" && !/^[0-7]{1,4}$/.test(mode)
+            ? undefined
+            : applyFileMode(0, mode, false);
+
+        return this.changeAttribute(
+            "chmod",
+            remotePath,
+            recursive,
+            octalMode !== undefined
+                ? octalMode.toString(8).padStart(3, "0")
+                : (entry) =>
+                    applyFileMode(
+                        entry.mode,
+                        mode,
+                        entry.type === "directory",
+                    ).toString(8).padStart(3, "0"),
+        );
+    }
+
+    /**
+     * Changes the owner of a remote file or directory.
+     * @param remotePath The remote file or directory
+     * @param uid The numeric user id (the sftp cli does not accept user names)
+     * @param options optional - `recursive: true` changes the content of a directory, too (symlinks are not followed)
+     * @returns resolves when the owner is changed
+     */
+    public chown(
+        remotePath: string,
+        uid: number,
+        { recursive = false }: { recursive?: boolean } = {},
+    ): Promise<void> {
+        assertNumericId("uid", uid);
+        return this.changeAttribute(
+            "chown",
+            remotePath,
+            recursive,
+            String(uid),
+        );
+    }
+
+    /**
+     * Changes the group of a remote file or directory.
+     * @param remotePath The remote file or directory
+     * @param gid The numeric group id (the sftp cli does not accept group names)
+     * @param options optional - `recursive: true` changes the content of a directory, too (symlinks are not followed)
+     * @returns resolves when the group is changed
+     */
+    public chgrp(
+        remotePath: string,
+        gid: number,
+        { recursive = false }: { recursive?: boolean } = {},
+    ): Promise<void> {
+        assertNumericId("gid", gid);
+        return this.changeAttribute(
+            "chgrp",
+            remotePath,
+            recursive,
+            String(gid),
+        );
+    }
+
+    /**
+     * Runs `chmod`, `chown` or `chgrp` for a remote path and with `recursive` for all entries below it.
+     * A directory, which only gains permissions, is changed before its content, so that its content becomes accessible.
+     * Otherwise the content of a directory is changed before the directory itself,
+     * so that removed permissions of the directory do not block the changes of its content.
+     * @param value the argument of the command or a function, which computes it from the current entry
+     */
+    private async changeAttribute(
+        action: "chmod" | "chown" | "chgrp",
+        remotePath: string,
+        recursive: boolean,
+        value: string | ((entry: RemoteEntry) => string),
+    ): Promise<void> {
+        const changes: { path: string; value: string }[] = [];
+        const addChange = (path: string, entry?: RemoteEntry) => {
+            if (typeof value === "string") {
+                changes.push({ path, value });
+            } else if (entry) {
+                changes.push({ path, value: value(entry) });
+            } else {
+                throw new NoSuchFileError(
+                    `${action} '${path}' failed: not found`,
+                    { command: `ls -la ${quoteSftpPath(path)}`, paths: [path] },
+                );
+            }
+        };
+        const onlyAddsPermissions = (entry: RemoteEntry) => {
+            if (action !== "chmod") {
+                return false;
+            }
+            const mode = parseInt(
+                typeof value === "string" ? value : value(entry),
+                8,
+            );
+            return (entry.mode & 0o7777 & ~mode) === 0;
+        };
+
+        if (!recursive && typeof value === "string") {
+            addChange(remotePath);
+        } else {
+            // `ls` follows symlinks like the commands do, a directory is listed with its "." entry
+            const entries = await this.ls(remotePath, { all: true });
+            const entry = entries.find((entry) => entry.name === ".") ??
+                entries[0];
+            if (recursive && entry?.type === "directory") {
+                const tree = await this.walkRemoteDir(remotePath);
+                // the walked directories, which are changed after their content (innermost last)
+                const postponed: RemoteTreeEntry[] = [];
+                const change = ({ path, entry }: RemoteTreeEntry) =>
+                    addChange(
+                        path ? joinRemote(remotePath, path) : remotePath,
+                        entry,
+                    );
+                for (const item of [{ path: "", entry }, ...tree]) {
+                    while (
+                        postponed.length > 0 &&
+                        !isInsideDir(item.path, postponed.at(-1)!.path)
+                    ) {
+                        change(postponed.pop()!);
+                    }
+                    if (item.entry.type === "symlink") {
+                        continue;
+                    }
+                    if (
+                        item.entry.type === "directory" &&
+                        !onlyAddsPermissions(item.entry)
+                    ) {
+                        postponed.push(item);
+                    } else {
+                        change(item);
+                    }
+                }
+                postponed.reverse().forEach(change);
+            } else {
+                addChange(remotePath, entry);
+            }
+        }
+
+        for (const { path, value } of changes) {
+            // the sftp cli announces each change, like: Changing mode on /srv/www/index.html
+            // and fails with: remote setstat "/srv/www/index.html": Permission denied
+            // or (older sftp versions): Couldn't setstat on "/srv/www/index.html": Permission denied
+            await this.enqueueSilentCommand(
+                `${action} ${value} ${quoteSftpPath(path)}`,
+                `${action} '${path}'`,
+                [path],
+                (line) => CHANGE_ANNOUNCEMENT.test(line),
+            );
+        }
+    }
+
+    /**
+     * Enqueues a command, which prints nothing on success (like `mkdir`, `rename` or `ln`).
+     * @param command the sftp command line
+     * @param description describes the command for the error message, like "mkdir '/srv/www'"
+     * @param paths the paths for the error details
+     * @param isInfoLine optional - detects output lines, which are no error messages
+     * @returns resolves when the command is completed and rejects with the matching SftpError, if it printed an error
+     */
+    private enqueueSilentCommand(
+        command: string,
+        description: string,
+        paths: string[],
+        isInfoLine: (line: string) => boolean = () => false,
+    ): Promise<void> {
+        return this.enqueueCommand<void>(command, (output, pending) => {
+            const errors = output.filter((line) => !isInfoLine(line));
+            if (errors.length > 0) {
+                pending.reject(
+                    createSftpError(
+                        `${description} failed: ${errors.join("\n")}`,
+                        { command, paths, output },
+                    ),
+                );
+                return;
+            }
+            pending.resolve();
+        });
+    }
+
+    /**
+     * Finds the entry of a remote path in the listing of its parent directory.
+     * In contrast to `ls <path>`, this does not follow symlinks.
+     * @returns the entry or undefined, if the path or its parent directory does not exist
+     */
+    private async findRemoteEntry(
+        remotePath: string,
+    ): Promise<RemoteEntry | undefined> {
+        const path = normalizeRemote(remotePath).replace(/(.)\/+$/, "$1");
+        const name = basenameRemote(path);
+        try {
+            const entries = await this.ls(dirnameRemote(path), { all: true });
+            return entries.find((entry) => entry.name === name);
+        } catch (error) {
+            if (error instanceof NoSuchFileError) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Uploads a file to the remote server.
+     * @param localPath The local file to upload
+     * @param remotePath optional - the remote path to upload the file to, if undefined: use the remote cwd
+     * @param options optional - see {@link TransferOptions}
+     * @returns resolves when the upload is completed, with the {@link TransferVerification} if `verify` is set
+     * @throws VerificationError, if the verification fails
+     */
+    public uploadFile(
+        localPath: string,
+        remotePath?: string,
+        options?: TransferOptions & { verify?: false },
+    ): Promise<boolean>;
+    public uploadFile(
+        localPath: string,
+        remotePath: string | undefined,
+        options: TransferOptions & { verify: true | VerifyMode },
+    ): Promise<TransferVerification>;
+    public uploadFile(
+        localPath: string,
+        remotePath?: string,
+        options?: TransferOptions,
+    ): Promise<boolean | TransferVerification>;
+    public async uploadFile(
+        localPath: string,
+        remotePath?: string,
+        options: TransferOptions = {},
+    ): Promise<boolean | TransferVerification> {
+        const uploaded = await this.uploadFileWithoutVerify(
+            localPath,
+            remotePath,
+            options,
+        );
+        if (!options.verify) {
+            return uploaded;
+        }
+        return this.verifyTransfer(
+            "upload",
+            await this.resolveLocalPath(localPath),
+            await this.resolveUploadTarget(localPath, remotePath),
+            options.verify,
+        );
+    }
+
+    /**
+     * Chooses the kind of upload for uploadFile(): atomic, resumed or a plain `put`
+     */
+    private uploadFileWithoutVerify(
+        localPath: string,
+        remotePath: string | undefined,
+        options: TransferOptions,
+    ): Promise<boolean> {
+        if (options.atomic) {
+            return options.resume
+                ? Promise.reject(
+                    new Error(
+                        "uploadFile: the options atomic and resume can not be combined",
+                    ),
+                )
+                : this.uploadFileAtomic(localPath, remotePath, options);
+        }
+        if (!options.resume) {
+            return this.startUpload("put", localPath, remotePath, options);
+        }
+        return this.planResumedUpload(localPath, remotePath).then(
+            ({ verb, size }) => {
+                if (verb) {
+                    return this.startUpload(
+                        verb,
+                        localPath,
+                        remotePath,
+                        options,
+                    );
+                }
+                this.logger.info(
+                    `${this.uploaderName}: ${localPath} is uploaded completely already`,
+                );
+                options.onProgress?.({
+                    transferType: "upload",
+                    file: localPath,
+                    bytesTransferred: size,
+                    totalBytes: size,
+                    percent: 100,
+                    bytesPerSecond: 0,
+                    etaSeconds: 0,
+                    done: true,
+                });
+                return true;
+            },
+        );
+    }
+
+    /**
+     * Compares the local file with the remote file for a resumed upload
+     * @returns the size of the local file and the command: "reput" for a shorter remote file, "put" for a missing one
+     * and undefined, if the remote file has the size of the local file already
+     */
+    private async planResumedUpload(
+        localPath: string,
+        remotePath: string | undefined,
+    ): Promise<{ verb?: "put" | "reput"; size: number }> {
+        const { size } = await stat(await this.resolveLocalPath(localPath));
+        const remote = await this.statOrUndefined(
+            await this.resolveUploadTarget(localPath, remotePath),
+        );
+        return {
+            // a larger remote file is rejected by reput
+            verb: !remote ? "put" : remote.size === size ? undefined : "reput",
+            size,
+        };
+    }
+
+    /**
+     * Uploads a file to a hidden temporary name in the target directory,
+     * checks its size and renames it into place.
+     * The temporary file is removed, if anything fails.
+     */
+    private async uploadFileAtomic(
+        localPath: string,
+        remotePath: string | undefined,
+        options: TransferOptions,
+    ): Promise<boolean> {
+        const [{ size }, target] = await Promise.all([
+            this.resolveLocalPath(localPath).then((path) => stat(path)),
+            this.resolveUploadTarget(localPath, remotePath),
+        ]);
+        const tempPath = joinRemote(
+            dirnameRemote(target),
+            `.${basenameRemote(target)}.${randomUUID()}.tmp`,
+        );
+
+        try {
+            await this.startUpload("put", localPath, tempPath, {
+                ...options,
+                totalBytes: options.totalBytes ?? size,
+            });
+            const uploaded = await this.stat(tempPath);
+            if (uploaded.size !== size) {
+                throw new UnknownSftpError(
+                    `upload of '${localPath}' failed: the temporary file '${tempPath}' has ${uploaded.size} instead of ${size} bytes`,
+                    {
+                        command: `put ${quoteSftpPath(localPath)} ${
+                            quoteSftpPath(tempPath)
+                        }`,
+                        paths: [localPath, tempPath],
+                    },
+                );
+            }
+            await this.rename(tempPath, target, { overwrite: true });
+        } catch (error) {
+            await this.rm(tempPath).catch(() => {
+                // the temporary file was not created
+            });
+            throw error;
+        }
+        return true;
+    }
+
+    /**
+     * Compares a transferred local file with the remote file, see {@link VerifyMode}
+     * @param localPath the absolute local path
+     * @throws VerificationError on a mismatch
+     */
+    private async verifyTransfer(
+        transferType: "upload" | "download",
+        localPath: string,
+        remotePath: string,
+        verify: true | VerifyMode,
+    ): Promise<TransferVerification> {
+        const mode = verify === true ? "size" : verify;
+        const [local, remote] = await Promise.all([
+            stat(localPath),
+            this.stat(remotePath),
+        ]);
+        const mismatch = (
+            check: "size" | "mtime" | "sha256",
+            localValue: string,
+            remoteValue: string,
+        ) => new VerificationError(
+            `${transferType} of '${
+                transferType === "upload" ? localPath : remotePath
+            }' failed the ${check} verification: local ${localValue}, remote ${remoteValue}`,
+            {
+                command: `ls -lan ${quoteSftpPath(remotePath)}`,
+                paths: [localPath, remotePath],
+                check,
+                localValue,
+                remoteValue,
+            },
+        );
+
+        if (local.size !== remote.size) {
+            throw mismatch("size", `${local.size}`, `${remote.size}`);
+        }
+        const verification: TransferVerification = {
+            transferType,
+            localPath,
+            remotePath,
+            mode,
+            size: remote.size,
+        };
+
+        return match(mode)
+            .with("size", () => verification)
+            .with("size+mtime", () => {
+                if (!matchesLsMtime(local.mtime, remote.mtime)) {
+                    throw mismatch(
+                        "mtime",
+                        local.mtime.toISOString(),
+                        remote.mtime.toISOString(),
+                    );
+                }
+                return { ...verification, mtime: remote.mtime };
+            })
+            .with("sha256", async () => {
+                // the remote hash is only available by transferring the file (again)
+                const tempDir = await mkdtemp(join(tmpdir(), "sftp-verify-"));
+                try {
+                    const copy = join(tempDir, basename(localPath));
+                    await this.downloadFileWithoutVerify(remotePath, copy, {});
+                    const [localHash, remoteHash] = await Promise.all([
+                        sha256File(localPath),
+                        sha256File(copy),
+                    ]);
+                    if (localHash !== remoteHash) {
+                        throw mismatch("sha256", localHash, remoteHash);
+                    }
+                    return { ...verification, sha256: localHash };
+                } finally {
+                    await rm(tempDir, { recursive: true, force: true });
+                }
+            })
+            .exhaustive();
+    }
+
+    /**
+     * Resolves the remote path of an uploaded file like `put` does:
+     * an upload into a directory (or the remote cwd) keeps the local file name
+     */
+    private async resolveUploadTarget(
+        localPath: string,
+        remotePath: string | undefined,
+    ): Promise<string> {
+        if (!remotePath) {
+            return basename(localPath);
+        }
+        return (await this.statOrUndefined(remotePath))?.type === "directory"
+            ? joinRemote(remotePath, basename(localPath))
+            : remotePath;
+    }
+
+    /**
+     * Sends the `put` or `reput` command of an upload and tracks its completion
+     */
+    private startUpload(
+        verb: "put" | "reput",
+        localPath: string,
+        remotePath: string | undefined,
+        { onProgress, totalBytes, verify }: TransferOptions,
+    ): Promise<boolean> {
+        const progress = onProgress &&
+            new TransferProgressTracker(
+                { transferType: "upload", file: localPath },
+                totalBytes !== undefined
+                    ? Promise.resolve(totalBytes)
+                    : this.resolveLocalPath(localPath)
+                        .then((path) => stat(path))
+                        .then(({ size }) => size, () => undefined),
+                onProgress,
+            );
+
+        // `-p` preserves the mtime for the verification
+        let command = `${verb}${verify === "size+mtime" ? " -p" : ""} ${
+            quoteSftpPath(localPath)
+        }`;
+        if (remotePath) {
+            command += ` ${quoteSftpPath(remotePath)}`;
+        }
+
+        const upload = {
+            transferType: "upload",
+            localPath,
+            remotePath: remotePath ?? undefined,
+            pending: pDefer<boolean>(),
+            command,
+        } satisfies FileTransferInProgress;
+        this.uploadInProgress.add(upload);
+
+        const commandDone = this.enqueueCommand<boolean>(
+            command,
+            (output, pending) => {
+                const errors = output.filter((line) =>
+                    !UPLOAD_ANNOUNCEMENT.test(line)
+                );
+                if (errors.length > 0) {
+                    pending.reject(
+                        createSftpError(
+                            `upload of '${localPath}' failed: ${
+                                errors.join("\n")
+                            }`,
+                            {
+                                command,
+                                paths: [localPath, upload.remotePath ?? "."],
+                                output,
+                            },
+                        ),
+                    );
+                    return;
+                }
+                this.logger.info(
+                    `${this.uploaderName}: Uploaded ${localPath} to ${upload.remotePath}`,
+                );
+                progress?.complete();
+                pending.resolve(true);
+            },
+            (line) => {
+                const [_line, _localPath, announcedRemotePath] =
+                    UPLOAD_ANNOUNCEMENT.exec(line) ?? [];
+                if (announcedRemotePath) {
+                    upload.remotePath = announcedRemotePath;
+                    progress?.update(0);
+                }
+            },
+        );
+        commandDone
+            // the last progress event is emitted before the upload resolves
+            .then(async (result) => (await progress?.reported, result))
+            .then(upload.pending.resolve, upload.pending.reject)
+            .finally(() => this.uploadInProgress.delete(upload));
+        return upload.pending.promise;
+    }
+
+    /**
+     * Uploads multiple files to the remote server (serially).
+     * @param files The local files to upload
+     * @param options optional - see {@link UploadFilesOptions}
+     * @returns A Promise which resolves when all uploads are completed, with the verifications if `verify` is set
+     */
+    public uploadFiles(
+        files: Iterable<string>,
+        options?: UploadFilesOptions & { verify?: false },
+    ): Promise<boolean[]>;
+    public uploadFiles(
+        files: Iterable<string>,
+        options: UploadFilesOptions & { verify: true | VerifyMode },
+    ): Promise<TransferVerification[]>;
+    public uploadFiles(
+        files: Iterable<string>,
+        options?: UploadFilesOptions,
+    ): Promise<boolean[] | TransferVerification[]>;
+    public async uploadFiles(
+        files: Iterable<string>,
+        { checkSpace = false, ...transferOptions }: UploadFilesOptions = {},
+    ): Promise<boolean[] | TransferVerification[]> {
+        const fileList = [...files];
+        if (checkSpace) {
+            await this.assertRemoteSpace(fileList, undefined);
+        }
+        const result = await pMap(
+            fileList,
+            (file: string) => this.uploadFile(file, undefined, transferOptions),
+            { concurrency: 1 },
+        );
+        return result as boolean[] | TransferVerification[];
+    }
+
+    /**
+     * Uploads multiple files to the remote server (serially).
+     * @param files
+     * @param options optional - see {@link UploadFilesOptions}
+     * @returns An rxjs observable instead of a promise like in this.uploadFiles (with the verification, if `verify` is set)
+     */
+    public uploadFiles$(
+        files: Iterable<string>,
+        { checkSpace = false, ...transferOptions }: UploadFilesOptions = {},
+    ): Observable<
+        { file: string; nr: number; verification?: TransferVerification }
+    > {
+        const fileList = [...files];
+        return defer(() =>
+            from(
+                checkSpace
+                    ? this.assertRemoteSpace(fileList, undefined)
+                    : Promise.resolve(),
+            )
+        ).pipe(
+            concatMap(() => from(fileList)),
+            concatMap((file, index) => {
+                const uploadPromise = this.uploadFile(
+                    file,
+                    undefined,
+                    transferOptions,
+                ).then((result) => ({
+                    file,
+                    nr: index + 1,
+                    ...(typeof result === "object"
+                        ? { verification: result }
+                        : {}),
+                }));
+                //convert the promise from uploadFile to an observable (will be flattened by concatMap)
+                return from(uploadPromise);
+            }),
+        );
+    }
+
+    /**
+     * Uploads multiple files to the remote server (serially) and reports the progress of the whole batch.
+     * The sizes of all files are determined with a local `stat` before the first upload.
+     * Note: the progress of each file only advances at its end, see {@link TransferProgress}.
+     * @param files The local files to upload
+     * @returns An rxjs observable, which emits the progress of the current file and of the batch
+     */
+    public uploadFilesProgress$(
+        files: Iterable<string>,
+    ): Observable<BatchTransferProgress> {
+        return defer(() =>
+            from(
+                Promise.all(
+                    [...files].map(async (file) => ({
+                        file,
+                        totalBytes: await this.resolveLocalPath(file)
+                            .then((path) => stat(path))
+                            .then(({ size }) => size, () => undefined),
+                    })),
+                ),
+            )
+        ).pipe(
+            concatMap((sizedFiles) =>
+                this.batchProgress$(
+                    sizedFiles,
+                    (file, options) =>
+                        this.uploadFile(file, undefined, options),
+                )
+            ),
+        );
+    }
+
+    /**
+     * Uploads a local directory recursively and creates the remote directory tree.
+     * @param localDir The local directory to upload (relative to the local working directory of the sftp cli)
+     * @param remoteDir The remote directory to upload into (its parent must exist)
+     * @param options optional - include and exclude patterns, see {@link DirectoryTransferOptions},
+     * and the `checkSpace` pre-flight check, see {@link SpaceCheckOptions}
+     * @returns resolves with all uploaded files, when the upload is completed
+     */
+    public uploadDirectory(
+        localDir: string,
+        remoteDir: string,
+        options: DirectoryTransferOptions & SpaceCheckOptions = {},
+    ): Promise<DirectoryTransfer[]> {
+        return lastValueFrom(
+            this.uploadDirectory$(localDir, remoteDir, options).pipe(toArray()),
+        );
+    }
+
+    /**
+     * Uploads a local directory recursively and creates the remote directory tree.
+     * The local directory is listed on subscription.
+     * @param localDir The local directory to upload (relative to the local working directory of the sftp cli)
+     * @param remoteDir The remote directory to upload into (its parent must exist)
+     * @param options optional - include and exclude patterns, see {@link DirectoryTransferOptions},
+     * and the `checkSpace` pre-flight check, see {@link SpaceCheckOptions}
+     * @returns An rxjs observable, which emits each file when its upload is completed
+     */
+    public uploadDirectory$(
+        localDir: string,
+        remoteDir: string,
+        options: DirectoryTransferOptions & SpaceCheckOptions = {},
+    ): Observable<DirectoryTransfer> {
+        return defer(() =>
+            from(
+                this.planDirectoryUpload(localDir, remoteDir, options).then(
+                    async (plan) => {
+                        if (options.checkSpace) {
+                            await this.assertRemoteSpace(
+                                plan.transfers.map(({ localPath }) =>
+                                    localPath
+                                ),
+                                remoteDir,
+                            );
+                        }
+                        return plan;
+                    },
+                ),
+            )
+        ).pipe(
+            concatMap(({ remoteDirs, transfers }) =>
+                // all mkdir commands are queued before the uploads, parent directories first
+                from(
+                    Promise.all(
+                        remoteDirs.map((dir) => this.ensureRemoteDir(dir)),
+                    ),
+                ).pipe(concatMap(() => from(transfers)))
+            ),
+            concatMap((transfer) =>
+                //convert the promise from uploadFile to an observable (will be flattened by concatMap)
+                from(
+                    this.uploadFile(transfer.localPath, transfer.remotePath)
+                        .then(() => transfer),
+                )
+            ),
+        );
+    }
+
+    /**
+     * Lists the files of a local directory for uploadDirectory$()
+     * @returns the remote directories to create (parents first) and the files to upload
+     */
+    private async planDirectoryUpload(
+        localDir: string,
+        remoteDir: string,
+        options: DirectoryTransferOptions,
+    ): Promise<{ remoteDirs: string[]; transfers: DirectoryTransfer[] }> {
+        const localBase = await this.resolveLocalPath(localDir);
+        const filter = createPathFilter(options);
+        const files = (await walkLocalDir(localBase, filter.excludes))
+            .filter(filter.includes);
+
+        const remoteBase = normalizeRemote(remoteDir);
+        const remoteDirs = new Set<string>();
+        if (remoteBase !== "." && remoteBase !== "/") {
+            remoteDirs.add(remoteBase);
+        }
+        for (const file of files) {
+            const segments = file.split("/").slice(0, -1);
+            segments.forEach((_segment, index) =>
+                remoteDirs.add(
+                    joinRemote(remoteBase, ...segments.slice(0, index + 1)),
+                )
+            );
+        }
+
+        return {
+            remoteDirs: [...remoteDirs],
+            transfers: files.map((file, index) => ({
+                file,
+                localPath: join(localBase, file),
+                remotePath: joinRemote(remoteBase, file),
+                nr: index + 1,
+                total: files.length,
+            })),
+        };
+    }
+
+    /**
+     * Resolves a local path against the local working directory of the sftp cli
+     * (the `cwd` of the ClientOptions and all successful `lcd` calls).
+     * Waits for the queued commands first, so that a queued `lcd` is respected.
+     */
+    private async resolveLocalPath(localPath: string): Promise<string> {
+        await Promise.allSettled(
+            this.commandQueue.map((command) => command.pending.promise),
+        );
+        return resolve(
+            this.transportOptions.cwd,
+            this.localCwd ?? ".",
+            localPath,
+        );
+    }
+
+    /**
+     * Creates a remote directory, if it does not exist yet.
+     * Concurrent calls for the same path share one `mkdir` (see mkdirInProgress).
+     * Note: the parent directory must exist.
+     * @returns resolves with true, when the directory was created and false, when it existed already
+     */
+    private ensureRemoteDir(remotePath: string): Promise<boolean> {
+        const inProgress = this.mkdirInProgress.get(remotePath);
+        if (inProgress) {
+            return inProgress.promise;
+        }
+        const mkdir = pDefer<boolean>();
+        this.mkdirInProgress.set(remotePath, mkdir);
+
+        const command = `mkdir ${quoteSftpPath(remotePath)}`;
+        this.enqueueCommand<string[]>(
+            command,
+            (output, pending) => pending.resolve(output),
+        ).then(async (output) => {
+            if (output.length === 0) {
+                return true;
+            }
+            // sftp does not tell, why mkdir failed, e.g. for an existing directory:
+            // remote mkdir "/home/tt-bj2/playground": Failure
+            // => check whether the directory exists
+            const entries = await this.ls(remotePath, { all: true })
+                .catch(() => []);
+            if (
+                entries.some((entry) =>
+                    entry.name === "." && entry.type === "directory"
+                )
+            ) {
+                return false;
+            }
+            throw createSftpError(
+                `mkdir '${remotePath}' failed: ${output.join("\n")}`,
+                { command, paths: [remotePath], output },
+            );
+        }).then(mkdir.resolve, mkdir.reject)
+            .finally(() => this.mkdirInProgress.delete(remotePath));
+
+        return mkdir.promise;
+    }
+
+    /**
+     * Downloads a file from the remote server.
+     * @param remotePath The remote file to download
+     * @param localPath optional - the local path to download the file to, if undefined: use the local cwd
+     * @param options optional - see {@link TransferOptions}
+     * @returns resolves with the local path of the downloaded file, when the download is completed,
+     * or with the {@link TransferVerification} if `verify` is set
+     * @throws VerificationError, if the verification fails
+     */
+    public downloadFile(
+        remotePath: string,
+        localPath?: string,
+        options?: TransferOptions & { verify?: false },
+    ): Promise<string>;
+    public downloadFile(
+        remotePath: string,
+        localPath: string | undefined,
+        options: TransferOptions & { verify: true | VerifyMode },
+    ): Promise<TransferVerification>;
+    public downloadFile(
+        remotePath: string,
+        localPath?: string,
+        options?: TransferOptions,
+    ): Promise<string | TransferVerification>;
+    public async downloadFile(
+        remotePath: string,
+        localPath?: string,
+        options: TransferOptions = {},
+    ): Promise<string | TransferVerification> {
+        const downloadedPath = await this.downloadFileWithoutVerify(
+            remotePath,
+            localPath,
+            options,
+        );
+        if (!options.verify) {
+            return downloadedPath;
+        }
+        return this.verifyTransfer(
+            "download",
+            await this.resolveLocalPath(downloadedPath),
+            remotePath,
+            options.verify,
+        );
+    }
+
+    /**
+     * Sends the `get` or `reget` command of downloadFile() and tracks its completion
+     */
+    private downloadFileWithoutVerify(
+        remotePath: string,
+        localPath: string | undefined,
+        { onProgress, totalBytes, resume = false, verify }: TransferOptions,
+    ): Promise<string> {
+        const progress = onProgress &&
+            new TransferProgressTracker(
+                { transferType: "download", file: remotePath },
+                totalBytes !== undefined
+                    ? Promise.resolve(totalBytes)
+                    : this.remoteFileSize(remotePath),
+                onProgress,
+            );
+        let pollLocalSize: ReturnType<typeof setInterval> | undefined;
+
+        // reget downloads the whole file, if the local file does not exist
+        // `-p` preserves the mtime for the verification
+        let command = `${resume ? "reget" : "get"}${
+            verify === "size+mtime" ? " -p" : ""
+        } ${quoteSftpPath(remotePath)}`;
+        if (localPath) {
+            command += ` ${quoteSftpPath(localPath)}`;
+        }
+
+        const download = {
+            transferType: "download",
+            localPath: localPath ?? undefined,
+            remotePath,
+            command,
+            pending: pDefer<string>(),
+        } satisfies FileTransferInProgress;
+        this.downloadInProgress.add(download);
+
+        const commandDone = this.enqueueCommand<string>(
+            command,
+            (output, pending) => {
+                // all other lines are error messages, like: File "/home/tt-bj2/missing.txt" not found.
+                const errors = output.filter((line) =>
+                    !DOWNLOAD_ANNOUNCEMENT.test(line) &&
+                    // reget of a complete file: File "local/file.ext" was not modified
+                    !(resume && /^File ".+" was not modified$/.test(line))
+                );
+                if (errors.length > 0) {
+                    pending.reject(
+                        createSftpError(
+                            `download of '${remotePath}' failed: ${
+                                errors.join("\n")
+                            }`,
+                            {
+                                command,
+                                paths: [remotePath, download.localPath ?? "."],
+                                output,
+                            },
+                        ),
+                    );
+                    return;
+                }
+                if (!download.localPath) {
+                    pending.reject(
+                        createSftpError(
+                            `download of '${remotePath}' failed: sftp did not announce the download`,
+                            { command, paths: [remotePath], output },
+                        ),
+                    );
+                    return;
+                }
+                this.logger.info(
+                    `${this.uploaderName}: Downloaded ${remotePath} to ${download.localPath}`,
+                );
+                progress?.complete();
+                pending.resolve(download.localPath);
+            },
+            (line) => {
+                const [_line, _remotePath, announcedLocalPath] =
+                    DOWNLOAD_ANNOUNCEMENT.exec(line) ?? [];
+                if (!announcedLocalPath) {
+                    return;
+                }
+                download.localPath = announcedLocalPath;
+                if (progress) {
+                    progress.update(0);
+                    // without a terminal, sftp prints no progress meter => watch the growing local file
+                    const absoluteLocalPath = resolve(
+                        this.transportOptions.cwd,
+                        this.localCwd ?? ".",
+                        announcedLocalPath,
+                    );
+                    pollLocalSize = setInterval(() => {
+                        stat(absoluteLocalPath).then(
+                            ({ size }) => progress.update(size),
+                            () => {
+                                // the file is not created yet
+                            },
+                        );
+                    }, PROGRESS_POLL_INTERVAL_MS);
+                }
+            },
+        );
+        commandDone
+            // the last progress event is emitted before the download resolves
+            .then(async (result) => (await progress?.reported, result))
+            .then(download.pending.resolve, download.pending.reject)
+            .finally(() => {
+                clearInterval(pollLocalSize);
+                this.downloadInProgress.delete(download);
+            });
+        return download.pending.promise;
+    }
+
+    /**
+     * Downloads multiple files from the remote server (serially).
+     * @param files The remote files to download
+     * @returns A Promise which resolves with the local paths when all downloads are completed
+     */
+    public async downloadFiles(files: Iterable<string>): Promise<string[]> {
+        const result = await pMap(
+            files,
+            (file: string) => this.downloadFile(file),
+            { concurrency: 1 },
+        );
+        return result;
+    }
+
+    /**
+     * Downloads a remote directory recursively and creates the local directories as needed.
+     * A failed file does not stop the download, it is listed in `failed` of the result.
+     * @param remoteDir The remote directory to download
+     * @param localDir The local directory to download into (relative to the local working directory of the sftp cli)
+     * @param options optional - include and exclude patterns, see {@link DirectoryTransferOptions}
+     * @returns resolves with the written and the failed files, when the download is completed
+     */
+    public async downloadDirectory(
+        remoteDir: string,
+        localDir: string,
+        options: DirectoryTransferOptions = {},
+    ): Promise<DirectoryDownloadResult> {
+        const transfers = await lastValueFrom(
+            this.downloadDirectory$(remoteDir, localDir, options).pipe(
+                toArray(),
+            ),
+        );
+        return {
+            files: transfers.filter((transfer) => !transfer.error),
+            failed: transfers.filter((transfer) => transfer.error),
+        };
+    }
+
+    /**
+     * Downloads a remote directory recursively and creates the local directories as needed.
+     * The remote directory is listed on subscription.
+     *
+     * Note: `get -r` only announces the directories, not the single files.
+     * Therefore the remote tree is listed with `ls` and each file is fetched with its own `get`.
+     *
+     * @param remoteDir The remote directory to download
+     * @param localDir The local directory to download into (relative to the local working directory of the sftp cli)
+     * @param options optional - include and exclude patterns, see {@link DirectoryTransferOptions}
+     * @returns An rxjs observable, which emits each file when its download is completed or failed (see `DirectoryTransfer.error`)
+     */
+    public downloadDirectory$(
+        remoteDir: string,
+        localDir: string,
+        options: DirectoryTransferOptions = {},
+    ): Observable<DirectoryTransfer> {
+        return defer(() =>
+            from(this.planDirectoryDownload(remoteDir, localDir, options))
+        ).pipe(
+            concatMap((transfers) => from(transfers)),
+            concatMap((transfer) =>
+                //convert the promise from downloadFile to an observable (will be flattened by concatMap)
+                from(
+                    mkdir(dirname(transfer.localPath), { recursive: true })
+                        .then(() =>
+                            this.downloadFile(
+                                transfer.remotePath,
+                                transfer.localPath,
+                            )
+                        )
+                        .then(
+                            () => transfer,
+                            (error) => ({
+                                ...transfer,
+                                error: error instanceof SftpError
+                                    ? error
+                                    : new UnknownSftpError(
+                                        `download of '${transfer.remotePath}' failed`,
+                                        {
+                                            command: `get ${
+                                                quoteSftpPath(
+                                                    transfer.remotePath,
+                                                )
+                                            } ${
+                                                quoteSftpPath(
+                                                    transfer.localPath,
+                                                )
+                                            }`,
+                                            paths: [
+                                                transfer.remotePath,
+                                                transfer.localPath,
+                                            ],
+                                            cause: error,
+                                        },
+                                    ),
+                            }),
+                        ),
+                )
+            ),
+        );
+    }
+
+    /**
+     * Lists the files of a remote directory for downloadDirectory$() and creates the local directory
+     * @returns the files to download
+     */
+    private async planDirectoryDownload(
+        remoteDir: string,
+        localDir: string,
+        options: DirectoryTransferOptions,
+    ): Promise<DirectoryTransfer[]> {
+        const localBase = await this.resolveLocalPath(localDir);
+        const filter = createPathFilter(options);
+        const remoteBase = normalizeRemote(remoteDir);
+        const files = (await this.walkRemoteDir(remoteBase, filter.excludes))
+            .filter(({ path, entry }) =>
+                entry.type !== "directory" && filter.includes(path)
+            )
+            .map(({ path }) => path);
+
+        await mkdir(localBase, { recursive: true });
+
+        return files.map((file, index) => ({
+            file,
+            localPath: join(localBase, ...file.split("/")),
+            remotePath: joinRemote(remoteBase, file),
+            nr: index + 1,
+            total: files.length,
+        }));
+    }
+
+    /**
+     * Lists all files and directories in a remote directory recursively (one `ls -la` per directory).
+     * Symlinks are not followed, `get` and `put` treat them as files.
+     * @param remoteDir the remote directory to list
+     * @param skipDir optional - called with the relative path of each sub directory, return true to skip its content
+     * @param numericIds optional - list with `ls -lan` (see {@link LsOptions.numericIds})
+     * @returns the entries with their relative paths, sorted by name (parents before their content)
+     */
+    private async walkRemoteDir(
+        remoteDir: string,
+        skipDir: (relativePath: string) => boolean = () => false,
+        numericIds = false,
+    ): Promise<RemoteTreeEntry[]> {
+        const tree: RemoteTreeEntry[] = [];
+
+        const walk = async (relativeDir: string) => {
+            const entries = await this.ls(
+                relativeDir ? joinRemote(remoteDir, relativeDir) : remoteDir,
+                { all: true, numericIds },
+            );
+            entries.sort((a, b) => a.name.localeCompare(b.name));
+
+            for (const entry of entries) {
+                if (entry.name === "." || entry.name === "..") {
+                    continue;
+                }
+                const relativePath = relativeDir
+                    ? `${relativeDir}/${entry.name}`
+                    : entry.name;
+                tree.push({ path: relativePath, entry });
+                if (entry.type === "directory" && !skipDir(relativePath)) {
+                    await walk(relativePath);
+                }
+            }
+        };
+
+        await walk("");
+        return tree;
+    }
+
+    /**
+     * Makes a remote directory a mirror of a local directory: uploads new and changed files,
+     * creates the missing remote directories and deletes remote files, which do not exist locally (with `delete: true`).
+     * @param localDir The local directory to sync (relative to the local working directory of the sftp cli)
+     * @param remoteDir The remote directory to sync into
+     * @param options optional - see {@link SyncOptions}
+     * @returns resolves with the plan, when all actions are completed (with `dryRun: true` without executing them)
+     */
+    public async sync(
+        localDir: string,
+        remoteDir: string,
+        options: SyncOptions = {},
+    ): Promise<SyncPlan> {
+        const plan = await this.planSync(localDir, remoteDir, options);
+        if (!options.dryRun) {
+            await lastValueFrom(this.executeSync$(plan).pipe(toArray()));
+        }
+        return plan;
+    }
+
+    /**
+     * Makes a remote directory a mirror of a local directory, see {@link SftpClient.sync}.
+     * Both trees are listed on subscription.
+     * @param localDir The local directory to sync (relative to the local working directory of the sftp cli)
+     * @param remoteDir The remote directory to sync into
+     * @param options optional - see {@link SyncOptions}
+     * @returns An rxjs observable, which emits each action when it is completed (with `dryRun: true` without executing it)
+     */
+    public sync$(
+        localDir: string,
+        remoteDir: string,
+        options: SyncOptions = {},
+    ): Observable<SyncProgress> {
+        return defer(() => from(this.planSync(localDir, remoteDir, options)))
+            .pipe(
+                concatMap((plan) =>
+                    options.dryRun
+                        ? from(plan.actions.map((action, index) => ({
+                            action,
+                            nr: index + 1,
+                            total: plan.actions.length,
+                        })))
+                        : this.executeSync$(plan)
+                ),
+            );
+    }
+
+    /**
+     * Lists the local and the remote tree and compares them for sync()
+     */
+    private async planSync(
+        localDir: string,
+        remoteDir: string,
+        { compare = "size+mtime", ...options }: SyncOptions,
+    ): Promise<SyncPlan> {
+        const localBase = await this.resolveLocalPath(localDir);
+        const remoteBase = normalizeRemote(remoteDir);
+        const filter = createPathFilter(options);
+
+        const localFiles = await pMap(
+            (await walkLocalDir(localBase, filter.excludes)).filter(
+                filter.includes,
+            ),
+            async (path) => {
+                const { size, mtime } = await stat(
+                    join(localBase, ...path.split("/")),
+                );
+                return { path, size, mtime };
+            },
+            { concurrency: 8 },
+        );
+
+        let remoteBaseExists = true;
+        let remoteEntries: RemoteTreeEntry[] = [];
+        try {
+            // the server formats the mtime of `ls -la` in its own time zone,
+            // the sftp cli formats the mtime of `ls -lan` in the local time zone like the parser expects
+            remoteEntries = await this.walkRemoteDir(
+                remoteBase,
+                filter.excludes,
+                true,
+            );
+        } catch (error) {
+            if (!(error instanceof NoSuchFileError)) {
+                throw error;
+            }
+            remoteBaseExists = false;
+        }
+
+        return createSyncPlan({
+            localBase,
+            remoteBase,
+            localFiles,
+            remoteEntries,
+            remoteBaseExists,
+            filter,
+            compare,
+            deleteRemote: options.delete ?? false,
+        });
+    }
+
+    /**
+     * Executes the actions of a sync plan serially
+     */
+    private executeSync$(plan: SyncPlan): Observable<SyncProgress> {
+        const total = plan.actions.length;
+        return from(plan.actions).pipe(
+            concatMap((action, index) =>
+                from(
+                    match(action)
+                        .with(
+                            { type: "mkdir" },
+                            ({ remotePath }) =>
+                                this.ensureRemoteDir(remotePath),
+                        )
+                        .with(
+                            { type: "upload" },
+                            ({ localPath, remotePath }) =>
+                                this.uploadFile(localPath, remotePath),
+                        )
+                        .with(
+                            { type: "delete" },
+                            ({ remotePath, entryType }) =>
+                                entryType === "directory"
+                                    ? this.rmdir(remotePath)
+                                    : this.rm(remotePath),
+                        )
+                        .exhaustive()
+                        .then(() => ({ action, nr: index + 1, total })),
+                )
+            ),
+        );
+    }
+
+    /**
+     * Downloads multiple files from the remote server (serially).
+     * @param files
+     * @returns An rxjs observable instead of a promise like in this.downloadFiles
+     */
+    public downloadFiles$(
+        files: Iterable<string>,
+    ): Observable<{ file: string; localPath: string; nr: number }> {
+        return from(files).pipe(
+            concatMap((file, index) => {
+                const downloadPromise = this.downloadFile(file).then((
+                    localPath,
+                ) => ({
+                    file,
+                    localPath,
+                    nr: index + 1,
+                }));
+                //convert the promise from downloadFile to an observable (will be flattened by concatMap)
+                return from(downloadPromise);
+            }),
+        );
+    }
+
+    /**
+     * Downloads multiple files from the remote server (serially) and reports the progress of the whole batch.
+     * The sizes of all files are determined with `ls -l` before the first download.
+     * @param files The remote files to download
+     * @returns An rxjs observable, which emits the progress of the current file and of the batch
+     */
+    public downloadFilesProgress$(
+        files: Iterable<string>,
+    ): Observable<BatchTransferProgress> {
+        return defer(() =>
+            from(
+                Promise.all(
+                    [...files].map(async (file) => ({
+                        file,
+                        totalBytes: await this.remoteFileSize(file),
+                    })),
+                ),
+            )
+        ).pipe(
+            concatMap((sizedFiles) =>
+                this.batchProgress$(
+                    sizedFiles,
+                    (file, options) =>
+                        this.downloadFile(file, undefined, options),
+                )
+            ),
+        );
+    }
+
+    /**
+     * Transfers the files one after another and sums up their progress
+     */
+    private batchProgress$(
+        files: { file: string; totalBytes?: number }[],
+        transfer: (file: string, options: TransferOptions) => Promise<unknown>,
+    ): Observable<BatchTransferProgress> {
+        const totalBytes = files.reduce(
+            (sum, file) => sum + (file.totalBytes ?? 0),
+            0,
+        );
+        let startedAt: number | undefined;
+        let completedBytes = 0;
+
+        const toBatchProgress = (
+            current: TransferProgress,
+            index: number,
+        ): BatchTransferProgress => {
+            startedAt ??= Date.now();
+            const bytesTransferred = completedBytes + current.bytesTransferred;
+            const elapsedSeconds = (Date.now() - startedAt) / 1000;
+            const bytesPerSecond = elapsedSeconds > 0
+                ? bytesTransferred / elapsedSeconds
+                : 0;
+            return {
+                current,
+                nr: index + 1,
+                files: files.length,
+                bytesTransferred,
+                totalBytes,
+                percent: totalBytes > 0
+                    ? Math.min(100, bytesTransferred / totalBytes * 100)
+                    : (index + (current.done ? 1 : 0)) / files.length * 100,
+                bytesPerSecond,
+                etaSeconds: bytesPerSecond > 0
+                    ? Math.max(0, totalBytes - bytesTransferred) /
+                        bytesPerSecond
+                    : undefined,
+            };
+        };
+
+        return from(files).pipe(
+            concatMap(({ file, totalBytes }, index) =>
+                new Observable<BatchTransferProgress>((subscriber) => {
+                    let lastProgress: TransferProgress | undefined;
+                    transfer(file, {
+                        totalBytes,
+                        onProgress: (progress) => {
+                            lastProgress = progress;
+                            subscriber.next(toBatchProgress(progress, index));
+                        },
+                    }).then(
+                        () => {
+                            completedBytes += lastProgress?.bytesTransferred ??
+                                0;
+                            subscriber.complete();
+                        },
+                        (error) => subscriber.error(error),
+                    );
+                })
+            ),
+        );
+    }
+
+    /**
+     * Determines the size of a remote file with `ls -l`
+     * @returns the size in bytes or undefined, if the file can not be listed
+     */
+    private remoteFileSize(remotePath: string): Promise<number | undefined> {
+        return this.ls(remotePath).then(
+            (entries) => entries.length === 1 ? entries[0].size : undefined,
+            () => undefined,
+        );
+    }
+
+    /**
+     * Hard kill of the inner sftp client process
+     * @returns
+     */
+    public async kill(): Promise<void> {
+        this.closing = true;
+        this.reconnectAbort.abort();
+        this.reconnectEvents.complete();
+
+        // close input stream before killing
+        await this.clientIn.close();
+        await this.transport.kill();
+    }
+
+    /**
+     * Waits for all queued commands to complete and exits the sftp cli afterwards.
+     * @returns A promise that resolves when the client could be closed correctly
+     * @throws Error if the sftp client could not be closed correctly
+     */
+    public async close(): Promise<void> {
+        this.closing = true;
+        this.reconnectAbort.abort();
+
+        const isConnected = await this.connected.catch(() => false);
+        if (!isConnected || this.connectionState === "failed") {
+            // the sftp cli exits by itself or is killed, when the connection failed
+            await this.transport.kill().catch(() => {});
+            await this.transport.exited;
+            this.reconnectEvents.complete();
+            return;
+        }
+
+        await Promise.allSettled(
+            this.commandQueue.map((command) => command.pending.promise),
+        );
+        await this.writeLine("exit");
+
+        // close input stream before exiting
+        await this.clientIn.close();
+
+        const { success, code, error } = await this.transport.exited;
+        this.reconnectEvents.complete();
+        if (!success) {
+            this.logger.error(
+                `${this.uploaderName}: Error while exiting sftp client`,
+                error,
+            );
+            throw new UnknownSftpError(
+                `the sftp cli exited unsuccessful with code ${code}`,
+                { command: "exit", cause: error },
+            );
+        }
     }
 }
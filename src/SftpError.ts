@@ -0,0 +1,225 @@
+/**
+ * The details which are attached to every {@link SftpError}.
+ */
+export type SftpErrorDetails = {
+    /**
+     * The sftp command which failed, like `cd some/remote/dir`
+     */
+    command: string;
+
+    /**
+     * The local and/or remote paths involved in the failed command
+     */
+    paths?: string[];
+
+    /**
+     * The raw output lines of the sftp cli for the failed command
+     */
+    output?: string[];
+
+    /**
+     * The original error, if this error wraps another one
+     */
+    cause?: unknown;
+};
+
+/**
+ * The base class of all errors thrown by the SftpClient.
+ * Use the subclasses with `instanceof` to distinguish the reason of a failure.
+ *
+ * @example
+ * ```ts
+ * import { NoSuchFileError, type SftpClient } from "@codemonument/sftp-client";
+ *
+ * async function enterReleases(sftpClient: SftpClient) {
+ *     try {
+ *         await sftpClient.cd("releases");
+ *     } catch (error) {
+ *         if (error instanceof NoSuchFileError) {
+ *             // create the directory
+ *         }
+ *     }
+ * }
+ * ```
+ */
+export class SftpError extends Error {
+    /**
+     * The sftp command which failed
+     */
+    public readonly command: string;
+
+    /**
+     * The local and/or remote paths involved in the failed command
+     */
+    public readonly paths: string[];
+
+    /**
+     * The raw output lines of the sftp cli for the failed command
+     */
+    public readonly output: string[];
+
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, { cause: details.cause });
+        this.name = "SftpError";
+        this.command = details.command;
+        this.paths = details.paths ?? [];
+        this.output = details.output ?? [];
+    }
+}
+
+/**
+ * The remote or local file or directory does not exist.
+ */
+export class NoSuchFileError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "NoSuchFileError";
+    }
+}
+
+/**
+ * The remote server or the local system denied the access to a file or directory.
+ */
+export class PermissionDeniedError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "PermissionDeniedError";
+    }
+}
+
+/**
+ * The connection to the remote server was closed, e.g. because the sftp cli exited.
+ */
+export class ConnectionClosedError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "ConnectionClosedError";
+    }
+}
+
+/**
+ * The target path exists already, e.g. for a rename without `overwrite: true`.
+ */
+export class FileExistsError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "FileExistsError";
+    }
+}
+
+/**
+ * The remote file system has not enough space for an upload,
+ * detected by the `checkSpace` pre-flight check of `SftpClient.uploadFiles()` and `SftpClient.uploadDirectory()`.
+ */
+export class InsufficientSpaceError extends SftpError {
+    /**
+     * The total size of the local files in bytes
+     */
+    public readonly requiredBytes: number;
+
+    /**
+     * The available bytes of the remote file system
+     */
+    public readonly availableBytes: number;
+
+    constructor(
+        message: string,
+        details: SftpErrorDetails & {
+            requiredBytes: number;
+            availableBytes: number;
+        },
+    ) {
+        super(message, details);
+        this.name = "InsufficientSpaceError";
+        this.requiredBytes = details.requiredBytes;
+        this.availableBytes = details.availableBytes;
+    }
+}
+
+/**
+ * The verification of a transfer failed, see the `verify` option of `SftpClient.uploadFile()` and `SftpClient.downloadFile()`.
+ */
+export class VerificationError extends SftpError {
+    /**
+     * The check which failed
+     */
+    public readonly check: "size" | "mtime" | "sha256";
+
+    /**
+     * The value of the local file (size, ISO date or hash)
+     */
+    public readonly localValue: string;
+
+    /**
+     * The value of the remote file (size, ISO date or hash)
+     */
+    public readonly remoteValue: string;
+
+    constructor(
+        message: string,
+        details: SftpErrorDetails & {
+            check: "size" | "mtime" | "sha256";
+            localValue: string;
+            remoteValue: string;
+        },
+    ) {
+        super(message, details);
+        this.name = "VerificationError";
+        this.check = details.check;
+        this.localValue = details.localValue;
+        this.remoteValue = details.remoteValue;
+    }
+}
+
+/**
+ * The authentication at the remote server failed.
+ */
+export class AuthenticationError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "AuthenticationError";
+    }
+}
+
+/**
+ * The host key of the remote server could not be verified,
+ * e.g. because it is not in the known_hosts file or has changed.
+ */
+export class HostKeyVerificationError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "HostKeyVerificationError";
+    }
+}
+
+/**
+ * The hostname of the remote server could not be resolved.
+ */
+export class HostNotFoundError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "HostNotFoundError";
+    }
+}
+
+/**
+ * The connection to the remote server could not be established in time,
+ * see `connectTimeoutMs` in the ClientOptions.
+ */
+export class ConnectTimeoutError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "ConnectTimeoutError";
+    }
+}
+
+/**
+ * The command failed for a reason, which is not known to this SftpClient wrapper class.
+ * See {@link SftpError.output} for the raw output of the sftp cli.
+ */
+export class UnknownSftpError extends SftpError {
+    constructor(message: string, details: SftpErrorDetails) {
+        super(message, details);
+        this.name = "UnknownSftpError";
+    }
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { lastValueFrom, toArray } from "rxjs";
+import { splitSftpCommand } from "../test/fake_sftp/mod.ts";
+import { SftpPool } from "./SftpPool.ts";
+import { InMemoryTransport } from "./transports/InMemoryTransport.ts";
+
+/**
+ * Creates in-memory transports, which record the uploaded files per session.
+ * The sessions in `dyingSessions` exit during their first upload.
+ */
+function createTransportFactory(dyingSessions: number[] = []) {
+    const uploads: string[][] = [];
+
+    const createTransport = () => {
+        const sessionUploads: string[] = [];
+        const sessionNr = uploads.push(sessionUploads);
+        return new InMemoryTransport({
+            handleCommand: (command, session) => {
+                const [action, localPath] = splitSftpCommand(command);
+                if (action !== "put") {
+                    return undefined;
+                }
+                if (dyingSessions.includes(sessionNr)) {
+                    session.exit(255);
+                    return [];
+                }
+                sessionUploads.push(localPath);
+                return [`Uploading ${localPath} to /home/tester/${localPath}`];
+            },
+        });
+    };
+
+    return { uploads, createTransport };
+}
+
+const poolOptions = {
+    host: "pool-host",
+    cwd: ".",
+    uploaderName: "pool",
+    logMode: "silent",
+} as const;
+
+Deno.test("SftpPool spreads uploads across the sessions", async () => {
+    const { uploads, createTransport } = createTransportFactory();
+    const pool = new SftpPool({ ...poolOptions, size: 3, createTransport });
+
+    assertEquals(await pool.connected, true);
+    const files = ["a.js", "b.js", "c.js", "d.js", "e.js", "f.js"];
+    const uploaded = await lastValueFrom(
+        pool.uploadFiles$(files).pipe(toArray()),
+    );
+
+    assertEquals(
+        uploaded.map(({ file, nr }) => [file, nr]).sort(),
+        files.map((file, index) => [file, index + 1]),
+    );
+    assertEquals(uploads.length, 3);
+    assertEquals(uploads.flat().sort(), files);
+    for (const sessionUploads of uploads) {
+        assertEquals(sessionUploads.length, 2);
+    }
+
+    await pool.close();
+});
+
+Deno.test("SftpPool replaces dead sessions and retries the transfer", async () => {
+    const { uploads, createTransport } = createTransportFactory([1]);
+    const pool = new SftpPool({ ...poolOptions, size: 2, createTransport });
+
+    const results = await pool.uploadFiles(["a.js", "b.js", "c.js"]);
+
+    assertEquals(results, [true, true, true]);
+    // session 1 died and was replaced by session 3
+    assertEquals(uploads.length, 3);
+    assertEquals(uploads[0], []);
+    assertEquals([...uploads[1], ...uploads[2]].sort(), [
+        "a.js",
+        "b.js",
+        "c.js",
+    ]);
+
+    await pool.close();
+});
@@ -0,0 +1,302 @@
+import pDefer, { type DeferredPromise } from "p-defer";
+import pMap from "p-map";
+import { from, mergeMap, type Observable } from "rxjs";
+import { type ClientOptions, SftpClient } from "./SftpClient.ts";
+import { ConnectionClosedError } from "./SftpError.ts";
+import type { SftpTransport } from "./transports/SftpTransport.type.ts";
+
+/**
+ * The options for instantiating a new SftpPool.
+ * All ClientOptions are passed to each session, besides `transport`, which is replaced by `createTransport`.
+ */
+export type PoolOptions = Omit<ClientOptions, "transport"> & {
+    /**
+     * The number of parallel sftp sessions
+     */
+    size: number;
+
+    /**
+     * Optional - creates the transport for each session (a transport can only run one sftp cli process at a time).
+     * Default: the default transport of the SftpClient
+     */
+    createTransport?: () => SftpTransport;
+};
+
+/**
+ * One session of the pool
+ */
+type PoolSession = {
+    /**
+     * The number of the session, starting at 1 (used for the uploaderName of the client: `${uploaderName}_${nr}`)
+     */
+    nr: number;
+
+    client: SftpClient;
+
+    /**
+     * True, while a transfer is running in this session
+     */
+    busy: boolean;
+};
+
+/**
+ * Manages multiple SftpClient sessions to the same host and spreads the file transfers across idle sessions.
+ * A session, which dies during a transfer (ConnectionClosedError), is replaced by a new one and the transfer is retried once.
+ *
+ * Note: every session starts in the remote home directory, so use absolute remote paths or paths relative to the home directory.
+ *
+ * @example
+ * ```ts ignore
+ * import { SftpPool } from "@codemonument/sftp-client";
+ * import { lastValueFrom, tap } from "rxjs";
+ *
+ * const pool = new SftpPool({
+ *     size: 4,
+ *     host: "maya-dev",
+ *     cwd: "dist",
+ *     uploaderName: "deploy",
+ * });
+ *
+ * await lastValueFrom(
+ *     pool.uploadFiles$(["index.html", "app.js", "style.css"]).pipe(
+ *         tap(({ file, nr }) => console.log(`${nr}: uploaded ${file}`)),
+ *     ),
+ * );
+ * await pool.close();
+ * ```
+ */
+export class SftpPool {
+    private clientOptions: Omit<PoolOptions, "size" | "createTransport">;
+    private createTransport?: () => SftpTransport;
+    private sessions: PoolSession[] = [];
+
+    /**
+     * The transfers, which wait for an idle session (FIFO)
+     */
+    private waiting: DeferredPromise<PoolSession>[] = [];
+
+    /**
+     * All transfers, which are waiting or running
+     */
+    private transfers = new Set<Promise<unknown>>();
+    private closed = false;
+
+    // Public Properties
+    public readonly size: number;
+
+    constructor({ size, createTransport, ...clientOptions }: PoolOptions) {
+        if (!Number.isInteger(size) || size < 1) {
+            throw new Error(`SftpPool: invalid size ${size}`);
+        }
+        this.size = size;
+        this.clientOptions = clientOptions;
+        this.createTransport = createTransport;
+
+        for (let nr = 1; nr <= size; nr++) {
+            this.sessions.push(this.createSession(nr));
+        }
+    }
+
+    /**
+     * Resolves with true, when all sessions are connected.
+     * Rejects with the error of the first session, which could not connect.
+     */
+    public get connected(): Promise<boolean> {
+        return Promise.all(
+            this.sessions.map((session) => session.client.connected),
+        ).then(() => true);
+    }
+
+    private createSession(nr: number): PoolSession {
+        return {
+            nr,
+            busy: false,
+            client: new SftpClient({
+                ...this.clientOptions,
+                uploaderName: `${this.clientOptions.uploaderName}_${nr}`,
+                transport: this.createTransport?.(),
+            }),
+        };
+    }
+
+    /**
+     * Resolves with an idle session and marks it as busy
+     */
+    private acquire(): Promise<PoolSession> {
+        if (this.closed) {
+            return Promise.reject(new Error("SftpPool: the pool is closed"));
+        }
+        const idleSession = this.sessions.find((session) => !session.busy);
+        if (idleSession) {
+            idleSession.busy = true;
+            return Promise.resolve(idleSession);
+        }
+        const waiter = pDefer<PoolSession>();
+        this.waiting.push(waiter);
+        return waiter.promise;
+    }
+
+    /**
+     * Passes the session to the next waiting transfer or marks it as idle
+     */
+    private release(session: PoolSession) {
+        if (!this.sessions.includes(session)) {
+            // the session was replaced
+            return;
+        }
+        const waiter = this.waiting.shift();
+        if (waiter) {
+            waiter.resolve(session);
+            return;
+        }
+        session.busy = false;
+    }
+
+    /**
+     * Kills the client of a dead session and replaces it with a new one
+     */
+    private replaceSession(session: PoolSession) {
+        const index = this.sessions.indexOf(session);
+        if (index === -1) {
+            return;
+        }
+        session.client.kill().catch(() => {
+            // the sftp cli exited already
+        });
+
+        const replacement = this.createSession(session.nr);
+        replacement.busy = true;
+        this.sessions[index] = replacement;
+        this.release(replacement);
+    }
+
+    /**
+     * Runs a transfer in the next idle session and tracks it until it is completed
+     */
+    private schedule<T>(
+        transfer: (client: SftpClient) => Promise<T>,
+    ): Promise<T> {
+        const promise = this.run(transfer);
+        this.transfers.add(promise);
+        const untrack = () => this.transfers.delete(promise);
+        promise.then(untrack, untrack);
+        return promise;
+    }
+
+    /**
+     * Runs a transfer in an idle session.
+     * When the session died (ConnectionClosedError), it is replaced and the transfer is retried once.
+     */
+    private async run<T>(
+        transfer: (client: SftpClient) => Promise<T>,
+        isRetry = false,
+    ): Promise<T> {
+        const session = await this.acquire();
+        try {
+            return await transfer(session.client);
+        } catch (error) {
+            if (!(error instanceof ConnectionClosedError) || this.closed) {
+                throw error;
+            }
+            this.replaceSession(session);
+            if (isRetry) {
+                throw error;
+            }
+            return this.run(transfer, true);
+        } finally {
+            this.release(session);
+        }
+    }
+
+    /**
+     * Uploads a file to the remote server in the next idle session.
+     * @param localPath The local file to upload
+     * @param remotePath optional - the remote path to upload the file to, if undefined: use the remote home directory
+     * @returns resolves when the upload is completed
+     */
+    public uploadFile(
+        localPath: string,
+        remotePath?: string,
+    ): Promise<boolean> {
+        return this.schedule((client) =>
+            client.uploadFile(localPath, remotePath)
+        );
+    }
+
+    /**
+     * Uploads multiple files to the remote server (in parallel, one upload per session).
+     * @param files The local files to upload
+     * @returns A Promise which resolves when all uploads are completed
+     */
+    public uploadFiles(files: Iterable<string>): Promise<boolean[]> {
+        return pMap(files, (file: string) => this.uploadFile(file), {
+            concurrency: this.size,
+        });
+    }
+
+    /**
+     * Uploads multiple files to the remote server (in parallel, one upload per session).
+     * @param files The local files to upload
+     * @returns An rxjs observable, which emits each file when its upload is completed (in the order of completion).
+     *          `nr` is the position of the file in `files`, starting at 1.
+     */
+    public uploadFiles$(
+        files: Iterable<string>,
+    ): Observable<{ file: string; nr: number }> {
+        return from(files).pipe(
+            mergeMap(
+                (file, index) =>
+                    from(
+                        this.uploadFile(file).then(() => ({
+                            file,
+                            nr: index + 1,
+                        })),
+                    ),
+                this.size,
+            ),
+        );
+    }
+
+    /**
+     * Downloads a file from the remote server in the next idle session.
+     * @param remotePath The remote file to download
+     * @param localPath optional - the local path to download the file to, if undefined: use the local cwd
+     * @returns resolves with the local path of the downloaded file, when the download is completed
+     */
+    public downloadFile(
+        remotePath: string,
+        localPath?: string,
+    ): Promise<string> {
+        return this.schedule((client) =>
+            client.downloadFile(remotePath, localPath)
+        );
+    }
+
+    /**
+     * Downloads multiple files from the remote server (in parallel, one download per session).
+     * @param files The remote files to download
+     * @returns A Promise which resolves with the local paths when all downloads are completed
+     */
+    public downloadFiles(files: Iterable<string>): Promise<string[]> {
+        return pMap(files, (file: string) => this.downloadFile(file), {
+            concurrency: this.size,
+        });
+    }
+
+    /**
+     * Waits for all waiting and running transfers and closes all sessions afterwards.
+     * @throws the first error of the sessions, which could not be closed correctly
+     */
+    public async close(): Promise<void> {
+        await Promise.allSettled(this.transfers);
+        this.closed = true;
+
+        const results = await Promise.allSettled(
+            this.sessions.map((session) => session.client.close()),
+        );
+        const failure = results.find((result) => result.status === "rejected");
+        if (failure) {
+            throw failure.reason;
+        }
+    }
+}
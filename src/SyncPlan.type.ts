@@ -0,0 +1,100 @@
+import type { DirectoryTransferOptions } from "./DirectoryTransfer.type.ts";
+import type { RemoteEntryType } from "./RemoteEntry.type.ts";
+
+/**
+ * How `SftpClient.sync()` decides, whether a file, which exists on both sides, is uploaded again:
+ * - "size": the sizes differ
+ * - "mtime": the local file is newer than the remote file (compared with the precision of `ls -l`: the minute,
+ *   or the day for files older than 6 months, so a local change within the same minute as the remote mtime is not detected)
+ * - "size+mtime": one of both
+ */
+export type SyncCompare = "size" | "mtime" | "size+mtime";
+
+/**
+ * The options for `SftpClient.sync()`.
+ * The include and exclude patterns apply to both sides: excluded remote files and directories are never deleted.
+ */
+export type SyncOptions = DirectoryTransferOptions & {
+    /**
+     * Optional - delete remote files and directories, which do not exist locally.
+     * Default: false
+     */
+    delete?: boolean;
+
+    /**
+     * Optional - see {@link SyncCompare}.
+     * Default: "size+mtime"
+     */
+    compare?: SyncCompare;
+
+    /**
+     * Optional - only compute the plan, do not change anything on the remote server.
+     * Default: false
+     */
+    dryRun?: boolean;
+};
+
+/**
+ * One step of a {@link SyncPlan}.
+ * `path` is relative to the synced directories with "/" as separator ("." for the remote directory itself).
+ */
+export type SyncAction =
+    | {
+        type: "mkdir";
+        path: string;
+        remotePath: string;
+    }
+    | {
+        type: "upload";
+        path: string;
+        localPath: string;
+        remotePath: string;
+
+        /**
+         * "new": the file does not exist on the remote server,
+         * "changed": the file differs (see {@link SyncCompare})
+         */
+        reason: "new" | "changed";
+    }
+    | {
+        type: "delete";
+        path: string;
+        remotePath: string;
+
+        /**
+         * The type of the remote entry. Directories are removed with `rmdir` after their content.
+         */
+        entryType: RemoteEntryType;
+    };
+
+/**
+ * The result of `SftpClient.sync()`.
+ */
+export type SyncPlan = {
+    /**
+     * The actions in the order of execution: all mkdirs (parents first), all uploads, all deletes (children first)
+     */
+    actions: SyncAction[];
+
+    /**
+     * The relative paths of the files, which are not uploaded, because they did not change
+     */
+    unchanged: string[];
+};
+
+/**
+ * Emitted by `SftpClient.sync$()` for each completed action of the plan.
+ */
+export type SyncProgress = {
+    action: SyncAction;
+
+    /**
+     * The number of the action in the plan, starting at 1
+     */
+    nr: number;
+
+    /**
+     * The number of actions in the plan
+     */
+    total: number;
+};
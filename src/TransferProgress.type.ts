@@ -0,0 +1,127 @@
+import type { VerifyMode } from "./TransferVerification.type.ts";
+
+/**
+ * The progress of one file transfer.
+ *
+ * Note: uploads only report their start (0%) and their end (100%), there is no intermediate progress for uploads.
+ * The sftp cli prints no progress meter without a terminal and the remote size can not be polled,
+ * because the sftp session is busy with the upload.
+ * Downloads also report the growing size of the local file.
+ */
+export type TransferProgress = {
+    transferType: "upload" | "download";
+
+    /**
+     * The file as it was passed to the transfer method (the local path for uploads, the remote path for downloads)
+     */
+    file: string;
+
+    bytesTransferred: number;
+
+    /**
+     * The size of the file, undefined if it could not be determined (local `stat` for uploads, remote `ls -l` for downloads)
+     */
+    totalBytes?: number;
+
+    /**
+     * The progress between 0 and 100
+     */
+    percent: number;
+
+    /**
+     * The average transfer rate since the start
+     */
+    bytesPerSecond: number;
+
+    /**
+     * The estimated remaining seconds, undefined while the rate or the total is unknown
+     */
+    etaSeconds?: number;
+
+    /**
+     * True for the last progress event of the transfer
+     */
+    done: boolean;
+};
+
+/**
+ * The progress of multiple file transfers, emitted by `SftpClient.uploadFilesProgress$()` and `SftpClient.downloadFilesProgress$()`.
+ */
+export type BatchTransferProgress = {
+    /**
+     * The progress of the file, which is transferred right now
+     */
+    current: TransferProgress;
+
+    /**
+     * The number of the current file, starting at 1
+     */
+    nr: number;
+
+    /**
+     * The number of files in the batch
+     */
+    files: number;
+
+    bytesTransferred: number;
+
+    /**
+     * The sum of the sizes of all files, which could be determined
+     */
+    totalBytes: number;
+
+    /**
+     * The progress between 0 and 100
+     */
+    percent: number;
+
+    /**
+     * The average transfer rate since the start of the batch
+     */
+    bytesPerSecond: number;
+
+    /**
+     * The estimated remaining seconds, undefined while the rate is unknown
+     */
+    etaSeconds?: number;
+};
+
+/**
+ * The options for `SftpClient.uploadFile()` and `SftpClient.downloadFile()`.
+ */
+export type TransferOptions = {
+    /**
+     * Optional - called with the progress of the transfer.
+     * Uploads only call it at their start and at their end (no intermediate progress),
+     * downloads also report the growing size of the local file (see {@link TransferProgress})
+     */
+    onProgress?(progress: TransferProgress): void;
+
+    /**
+     * Optional - the size of the file, if it is known already (skips the `stat` or `ls -l` for the total)
+     */
+    totalBytes?: number;
+
+    /**
+     * Optional - continue an interrupted transfer with `reput` or `reget` instead of starting from zero.
+     * Uploads check the remote file first: a missing file is uploaded with `put`,
+     * a file with the size of the local file counts as complete.
+     * Default: false
+     */
+    resume?: boolean;
+
+    /**
+     * Optional - upload to a hidden temporary name in the target directory (like `.data.csv.<uuid>.tmp`),
+     * check its size and rename it into place, so that the file never appears half-written.
+     * The temporary file is removed, if the upload fails. Only for uploads, can not be combined with `resume`.
+     * Default: false
+     */
+    atomic?: boolean;
+
+    /**
+     * Optional - verify the file after the transfer, see {@link VerifyMode} (`true` means "size").
+     * The transfer then resolves with a `TransferVerification` and rejects with a `VerificationError` on a mismatch.
+     * Default: false
+     */
+    verify?: boolean | VerifyMode;
+};
@@ -0,0 +1,45 @@
+/**
+ * How a transfer is verified after it finished:
+ * - "size": compares the size of the local and the remote file
+ * - "size+mtime": transfers with `-p` (preserves the modification time) and also compares the mtime
+ *   (with the precision of `ls -l`: minutes for recent files, days for older ones)
+ * - "sha256": also transfers the file a second time (downloads it back for uploads) and compares the SHA-256 hashes
+ */
+export type VerifyMode = "size" | "size+mtime" | "sha256";
+
+/**
+ * The result of a verified transfer, e.g. of `uploadFile(localPath, remotePath, { verify: "sha256" })`.
+ */
+export type TransferVerification = {
+    transferType: "upload" | "download";
+
+    /**
+     * The absolute local path of the transferred file
+     */
+    localPath: string;
+
+    /**
+     * The remote path of the transferred file
+     */
+    remotePath: string;
+
+    /**
+     * The checks which were done
+     */
+    mode: VerifyMode;
+
+    /**
+     * The verified size in bytes
+     */
+    size: number;
+
+    /**
+     * The verified modification time, as listed by `ls -l` (only for "size+mtime")
+     */
+    mtime?: Date;
+
+    /**
+     * The verified SHA-256 hash as hex string (only for "sha256")
+     */
+    sha256?: string;
+};
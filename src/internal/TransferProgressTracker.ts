@@ -0,0 +1,100 @@
+import type { TransferProgress } from "../TransferProgress.type.ts";
+
+/**
+ * One state of the transfer, as it was reported
+ */
+type ProgressUpdate = {
+    bytesTransferred?: number;
+    done: boolean;
+    at: number;
+};
+
+/**
+ * Collects the progress updates of one file transfer and reports them as {@link TransferProgress} events.
+ * The rate and the ETA are computed from the start of the transfer.
+ *
+ * The events are held back until the total size is known, so `reported` resolves after the last event.
+ */
+export class TransferProgressTracker {
+    private startedAt?: number;
+    private bytesTransferred = 0;
+    private totalBytes?: number;
+    private done = false;
+
+    /**
+     * Resolves when all updates so far are reported
+     */
+    public reported: Promise<void>;
+
+    constructor(
+        private transfer: Pick<TransferProgress, "transferType" | "file">,
+        totalBytes: Promise<number | undefined>,
+        private onProgress: (progress: TransferProgress) => void,
+        private now: () => number = Date.now,
+    ) {
+        this.reported = totalBytes.then((total) => {
+            this.totalBytes = total;
+        }, () => {
+            // the total stays unknown
+        });
+    }
+
+    /**
+     * Reports the transferred bytes, e.g. the size of the local file of a download
+     */
+    public update(bytesTransferred: number) {
+        this.enqueue({ bytesTransferred, done: false, at: this.now() });
+    }
+
+    /**
+     * Reports the end of the transfer
+     */
+    public complete() {
+        this.enqueue({ done: true, at: this.now() });
+    }
+
+    private enqueue(update: ProgressUpdate) {
+        this.reported = this.reported.then(() => this.report(update));
+    }
+
+    private report({ bytesTransferred, done, at }: ProgressUpdate) {
+        if (this.done) {
+            return;
+        }
+        const { totalBytes } = this;
+        this.startedAt ??= at;
+        this.done = done;
+
+        const bytes = done
+            ? totalBytes ?? this.bytesTransferred
+            : bytesTransferred ?? 0;
+        this.bytesTransferred = Math.max(this.bytesTransferred, bytes);
+
+        const elapsedSeconds = (at - this.startedAt) / 1000;
+        const bytesPerSecond = elapsedSeconds > 0
+            ? this.bytesTransferred / elapsedSeconds
+            : 0;
+
+        const percent = done
+            ? 100
+            : totalBytes
+            ? Math.min(100, this.bytesTransferred / totalBytes * 100)
+            : 0;
+
+        const etaSeconds = done
+            ? 0
+            : totalBytes !== undefined && bytesPerSecond > 0
+            ? (totalBytes - this.bytesTransferred) / bytesPerSecond
+            : undefined;
+
+        this.onProgress({
+            ...this.transfer,
+            bytesTransferred: this.bytesTransferred,
+            totalBytes,
+            percent,
+            bytesPerSecond,
+            etaSeconds,
+            done,
+        });
+    }
+}
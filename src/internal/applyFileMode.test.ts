@@ -0,0 +1,28 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { applyFileMode } from "./applyFileMode.ts";
+
+Deno.test("applyFileMode - octal modes", () => {
+    assertEquals(applyFileMode(0o644, 0o750, false), 0o750);
+    assertEquals(applyFileMode(0o644, "0640", false), 0o640);
+    assertEquals(applyFileMode(0o644, "2775", true), 0o2775);
+    assertThrows(() => applyFileMode(0o644, 0o10000, false));
+    assertThrows(() => applyFileMode(0o644, 1.5, false));
+});
+
+Deno.test("applyFileMode - symbolic modes", () => {
+    assertEquals(applyFileMode(0o644, "g+w", false), 0o664);
+    assertEquals(applyFileMode(0o664, "go-w", false), 0o644);
+    assertEquals(applyFileMode(0o777, "u=rwX,g=rX,o=", false), 0o750);
+    assertEquals(applyFileMode(0o600, "a+rX", true), 0o755);
+    assertEquals(applyFileMode(0o600, "a+rX", false), 0o644);
+    assertEquals(applyFileMode(0o755, "+t", true), 0o1755);
+    assertEquals(applyFileMode(0o755, "g+s,u-x+s", true), 0o6655);
+    assertThrows(() => applyFileMode(0o644, "u+q", false));
+    assertThrows(() => applyFileMode(0o644, "rw", false));
+});
+
+Deno.test("applyFileMode - `a` anywhere in who means all of u, g and o", () => {
+    assertEquals(applyFileMode(0o644, "ua+x", false), 0o755);
+    assertEquals(applyFileMode(0o644, "au+x", false), 0o755);
+    assertEquals(applyFileMode(0o777, "ga-w", true), 0o555);
+});
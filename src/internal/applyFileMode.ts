@@ -0,0 +1,87 @@
+/**
+ * The permission bits, which `who` (u, g, o) can change
+ */
+const WHO_BITS = { u: 0o4700, g: 0o2070, o: 0o1007 } as const;
+
+/**
+ * The bits of each permission letter for all of u, g and o (limited to the `who` bits when applied)
+ */
+const PERMISSION_BITS = {
+    r: 0o444,
+    w: 0o222,
+    x: 0o111,
+    s: 0o6000,
+    t: 0o1000,
+} as const;
+
+/**
+ * Computes the new permission bits for a `chmod` mode.
+ *
+ * @param currentMode the current permission bits of the file (only needed for symbolic modes)
+ * @param mode an octal number like 0o755, an octal string like "755"
+ * or a symbolic mode like "u+x", "go-w" or "u=rwX,g=rX,o=" (like the chmod command line tool, without umask)
+ * @param isDirectory whether the file is a directory (for the "X" permission)
+ * @returns the new permission bits
+ * @throws Error for invalid modes
+ *
+ * @example
+ * applyFileMode(0o644, "g+w", false); // => 0o664
+ * applyFileMode(0o600, "a+rX", true); // => 0o755
+ */
+export function applyFileMode(
+    currentMode: number,
+    mode: number | string,
+    isDirectory: boolean,
+): number {
+    if (typeof mode === "string" && /^[0-7]{1,4}$/.test(mode)) {
+        return applyFileMode(currentMode, parseInt(mode, 8), isDirectory);
+    }
+    if (typeof mode === "number") {
+        if (!Number.isInteger(mode) || mode < 0 || mode > 0o7777) {
+            throw new Error(`Invalid file mode: ${mode}`);
+        }
+        return mode;
+    }
+
+    let result = currentMode & 0o7777;
+    for (const clause of mode.split(",")) {
+        const parts = /^([ugoa]*)((?:[+\-=][rwxXst]*)+)$/.exec(clause);
+        if (!parts) {
+            throw new Error(`Invalid file mode: '${mode}'`);
+        }
+        const [, who, operations] = parts;
+        // like chmod: `a` anywhere (e.g. "ua") and an empty `who` mean all of u, g and o
+        const whoLetters = who === "" || who.includes("a") ? "ugo" : who;
+        const whoBits = [...whoLetters]
+            .reduce(
+                (bits, letter) =>
+                    bits | WHO_BITS[letter as keyof typeof WHO_BITS],
+                0,
+            );
+
+        for (
+            const [, operator, permissions] of operations.matchAll(
+                /([+\-=])([rwxXst]*)/g,
+            )
+        ) {
+            const executable = isDirectory || (result & 0o111) !== 0;
+            const bits = [...permissions].reduce(
+                (bits, letter) =>
+                    bits |
+                    (letter === "X"
+                        ? (executable ? PERMISSION_BITS.x : 0)
+                        : PERMISSION_BITS[
+                            letter as keyof typeof PERMISSION_BITS
+                        ]),
+                0,
+            ) & whoBits;
+
+            result = operator === "+"
+                ? result | bits
+                : operator === "-"
+                ? result & ~bits
+                : (result & ~whoBits) | bits;
+        }
+    }
+    return result;
+}
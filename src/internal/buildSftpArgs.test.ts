@@ -0,0 +1,56 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { buildSftpArgs } from "./buildSftpArgs.ts";
+
+Deno.test("buildSftpArgs - only host", () => {
+    assertEquals(buildSftpArgs({ host: "my-alias" }), ["my-alias"]);
+});
+
+Deno.test("buildSftpArgs - all options", () => {
+    assertEquals(
+        buildSftpArgs({
+            host: "example.com",
+            user: "deploy",
+            port: 2222,
+            identityFile: "/keys/id ed25519",
+            proxyJump: "jump@bastion:22",
+            sshConfig: "./ssh_config",
+            sshOptions: {
+                StrictHostKeyChecking: "accept-new",
+                ServerAliveInterval: 30,
+                Compression: true,
+                ForwardAgent: false,
+            },
+        }),
+        [
+            "-F",
+            "./ssh_config",
+            "-P",
+            "2222",
+            "-i",
+            "/keys/id ed25519",
+            "-J",
+            "jump@bastion:22",
+            "-o",
+            "StrictHostKeyChecking=accept-new",
+            "-o",
+            "ServerAliveInterval=30",
+            "-o",
+            "Compression=yes",
+            "-o",
+            "ForwardAgent=no",
+            "deploy@example.com",
+        ],
+    );
+});
+
+Deno.test("buildSftpArgs - rejects values which would be parsed as options", () => {
+    assertThrows(() => buildSftpArgs({ host: "-oProxyCommand=evil" }));
+    assertThrows(() => buildSftpArgs({ host: "host", user: "-F" }));
+    assertThrows(() => buildSftpArgs({ host: "host", port: 0 }));
+    assertThrows(() =>
+        buildSftpArgs({ host: "host", sshOptions: { "Bad Key": "x" } })
+    );
+    assertThrows(() =>
+        buildSftpArgs({ host: "host", sshOptions: { User: "a\nHost *" } })
+    );
+});
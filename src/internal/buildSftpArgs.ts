@@ -0,0 +1,68 @@
+import type { ConnectionOptions } from "../ConnectionOptions.type.ts";
+
+/**
+ * Builds the argv array for the sftp cli from the connection options.
+ * Every value is passed as its own argument, so no shell quoting is involved.
+ *
+ * @example
+ * buildSftpArgs({ host: "example.com", user: "deploy", port: 2222 })
+ * // => ["-P", "2222", "deploy@example.com"]
+ *
+ * @throws Error if an option could be interpreted as another sftp option or is otherwise invalid
+ */
+export function buildSftpArgs(
+    {
+        host,
+        user,
+        port,
+        identityFile,
+        proxyJump,
+        sshConfig,
+        sshOptions = {},
+    }: ConnectionOptions,
+): string[] {
+    const args: string[] = [];
+
+    if (sshConfig !== undefined) {
+        args.push("-F", assertValue("sshConfig", sshConfig));
+    }
+    if (port !== undefined) {
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+            throw new Error(`Invalid sftp option port: ${port}`);
+        }
+        args.push("-P", String(port));
+    }
+    if (identityFile !== undefined) {
+        args.push("-i", assertValue("identityFile", identityFile));
+    }
+    if (proxyJump !== undefined) {
+        args.push("-J", assertValue("proxyJump", proxyJump));
+    }
+    for (const [key, value] of Object.entries(sshOptions)) {
+        if (!/^[A-Za-z][A-Za-z0-9]*$/.test(key)) {
+            throw new Error(`Invalid ssh option name: '${key}'`);
+        }
+        const optionValue = typeof value === "boolean"
+            ? (value ? "yes" : "no")
+            : String(value);
+        args.push("-o", `${key}=${assertValue(key, optionValue)}`);
+    }
+
+    const destination = user === undefined
+        ? assertValue("host", host)
+        : `${assertValue("user", user)}@${assertValue("host", host)}`;
+    args.push(destination);
+
+    return args;
+}
+
+/**
+ * Rejects empty values, values starting with "-" (which would be parsed as an option by sftp)
+ * and values with line breaks (which would break the ssh config syntax)
+ */
+function assertValue(name: string, value: string): string {
+    if (value === "" || value.startsWith("-") || /[\r\n\0]/.test(value)) {
+        throw new Error(`Invalid sftp option ${name}: '${value}'`);
+    }
+    return value;
+}
@@ -0,0 +1,43 @@
+import { globToRegExp } from "@std/path";
+import type { PathPattern } from "../DirectoryTransfer.type.ts";
+
+/**
+ * Creates a filter function for relative paths from include and exclude patterns.
+ * A path matches, when it matches at least one include pattern (or no include patterns are given)
+ * and no exclude pattern.
+ *
+ * @example
+ * const filter = createPathFilter({ include: ["**\/*.js"], exclude: ["vendor/**"] });
+ * filter.includes("app/main.js"); // => true
+ * filter.includes("vendor/lib.js"); // => false
+ * filter.excludes("vendor"); // => false, use exclude: ["vendor"] to skip the directory
+ */
+export function createPathFilter(
+    { include = [], exclude = [] }: {
+        include?: PathPattern[];
+        exclude?: PathPattern[];
+    },
+): { includes(path: string): boolean; excludes(path: string): boolean } {
+    const toRegExp = (pattern: PathPattern) =>
+        typeof pattern === "string" ? globToRegExp(pattern) : pattern;
+    const includePatterns = include.map(toRegExp);
+    const excludePatterns = exclude.map(toRegExp);
+
+    const excludes = (path: string) =>
+        excludePatterns.some((pattern) => pattern.test(path));
+
+    return {
+        /**
+         * True, when the file should be transferred
+         */
+        includes: (path) =>
+            (includePatterns.length === 0 ||
+                includePatterns.some((pattern) => pattern.test(path))) &&
+            !excludes(path),
+
+        /**
+         * True, when the file or directory (including all its content) should be skipped
+         */
+        excludes,
+    };
+}
@@ -0,0 +1,74 @@
+import { assertEquals, assertInstanceOf } from "@std/assert";
+import {
+    AuthenticationError,
+    ConnectionClosedError,
+    ConnectTimeoutError,
+    FileExistsError,
+    HostKeyVerificationError,
+    HostNotFoundError,
+    NoSuchFileError,
+    PermissionDeniedError,
+    SftpError,
+    UnknownSftpError,
+} from "../SftpError.ts";
+import { createSftpError } from "./createSftpError.ts";
+
+Deno.test("createSftpError - detects the error class from the output", () => {
+    const cases = [
+        ["stat remote: No such file or directory", NoSuchFileError],
+        [`File "/home/deploy/missing.txt" not found.`, NoSuchFileError],
+        [
+            `remote open("/etc/shadow"): Permission denied`,
+            PermissionDeniedError,
+        ],
+        [
+            "deploy@example.com: Permission denied (publickey).",
+            AuthenticationError,
+        ],
+        ["Permission denied, please try again.", AuthenticationError],
+        ["Host key verification failed.", HostKeyVerificationError],
+        [
+            "ssh: Could not resolve hostname nothere: Name or service not known",
+            HostNotFoundError,
+        ],
+        [
+            "ssh: connect to host 10.0.0.1 port 22: Connection timed out",
+            ConnectTimeoutError,
+        ],
+        [
+            "ssh: connect to host localhost port 2222: Connection refused",
+            ConnectionClosedError,
+        ],
+        ["client_loop: send disconnect: Broken pipe", ConnectionClosedError],
+        ['remote mkdir "/home/deploy/x": File exists', FileExistsError],
+        ['remote mkdir "/home/deploy/x": Failure', UnknownSftpError],
+    ] as const;
+
+    for (const [line, errorClass] of cases) {
+        const error = createSftpError("failed", {
+            command: "some command",
+            output: [line],
+        });
+        assertInstanceOf(error, errorClass);
+        assertInstanceOf(error, SftpError);
+    }
+});
+
+Deno.test("createSftpError - keeps the details", () => {
+    const error = createSftpError(
+        "cd into 'x' failed: No such file or directory",
+        {
+            command: "cd x",
+            paths: ["x"],
+            output: ["stat remote: No such file or directory"],
+        },
+    );
+    assertEquals(error.name, "NoSuchFileError");
+    assertEquals(error.command, "cd x");
+    assertEquals(error.paths, ["x"]);
+    assertEquals(error.output, ["stat remote: No such file or directory"]);
+    assertEquals(
+        error.message,
+        "cd into 'x' failed: No such file or directory",
+    );
+});
@@ -0,0 +1,76 @@
+import { match, P } from "ts-pattern";
+import {
+    AuthenticationError,
+    ConnectionClosedError,
+    ConnectTimeoutError,
+    FileExistsError,
+    HostKeyVerificationError,
+    HostNotFoundError,
+    NoSuchFileError,
+    PermissionDeniedError,
+    type SftpError,
+    type SftpErrorDetails,
+    UnknownSftpError,
+} from "../SftpError.ts";
+
+/**
+ * Creates the matching subclass of {@link SftpError} for the output lines of a failed sftp command.
+ *
+ * Examples of detected output:
+ * - NoSuchFileError: "stat remote: No such file or directory", `File "/x" not found.`, `Can't ls: "/x" not found`
+ * - PermissionDeniedError: `remote open("/x"): Permission denied`
+ * - FileExistsError: `remote mkdir "/x": File exists` (only servers, which report the reason)
+ * - AuthenticationError: "deploy@example.com: Permission denied (publickey)."
+ * - HostKeyVerificationError: "Host key verification failed."
+ * - HostNotFoundError: "ssh: Could not resolve hostname nothere: Name or service not known"
+ * - ConnectTimeoutError: "ssh: connect to host 10.0.0.1 port 22: Connection timed out"
+ * - ConnectionClosedError: "Connection closed", "client_loop: send disconnect: Broken pipe", "Connection refused"
+ *
+ * @param message the error message
+ * @param details the command, paths and output lines of the failed command
+ */
+export function createSftpError(
+    message: string,
+    details: SftpErrorDetails,
+): SftpError {
+    const output = (details.output ?? []).join("\n");
+
+    return match(output)
+        .with(
+            P.string.regex(
+                /Permission denied \(|Permission denied, please try again|Too many authentication failures/,
+            ),
+            () => new AuthenticationError(message, details),
+        )
+        .with(
+            P.string.regex(/Host key verification failed/i),
+            () => new HostKeyVerificationError(message, details),
+        )
+        .with(
+            P.string.regex(/Could not resolve hostname/i),
+            () => new HostNotFoundError(message, details),
+        )
+        .with(
+            P.string.regex(/Connection timed out/i),
+            () => new ConnectTimeoutError(message, details),
+        )
+        .with(
+            P.string.regex(/No such file|not found/i),
+            () => new NoSuchFileError(message, details),
+        )
+        .with(
+            P.string.regex(/Permission denied/i),
+            () => new PermissionDeniedError(message, details),
+        )
+        .with(
+            P.string.regex(/File exists|already exists/i),
+            () => new FileExistsError(message, details),
+        )
+        .with(
+            P.string.regex(
+                /Connection (closed|reset|lost|refused)|Broken pipe|Connection to .* closed/i,
+            ),
+            () => new ConnectionClosedError(message, details),
+        )
+        .otherwise(() => new UnknownSftpError(message, details));
+}
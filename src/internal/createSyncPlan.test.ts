@@ -0,0 +1,152 @@
+import { assertEquals } from "@std/assert";
+import { createPathFilter } from "./createPathFilter.ts";
+import { createSyncPlan, type RemoteTreeEntry } from "./createSyncPlan.ts";
+import { parseLsLine } from "./parseLsOutput.ts";
+
+const now = new Date(2024, 9, 23, 12, 0);
+
+function remote(path: string, line: string): RemoteTreeEntry {
+    return { path, entry: parseLsLine(line, now)! };
+}
+
+const remoteEntries = [
+    remote(
+        "assets",
+        "drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 assets",
+    ),
+    remote(
+        "assets/app.js",
+        "-rw-r--r--    1 deploy   deploy        100 Oct 23 09:41 app.js",
+    ),
+    remote(
+        "assets/old.js",
+        "-rw-r--r--    1 deploy   deploy         10 Oct 23 09:41 old.js",
+    ),
+    remote(
+        "index.html",
+        "-rw-r--r--    1 deploy   deploy         50 Oct 23 09:41 index.html",
+    ),
+    remote(
+        "legacy",
+        "drwxr-xr-x    2 deploy   deploy       4096 Oct 23 09:41 legacy",
+    ),
+    remote(
+        "legacy/page.html",
+        "-rw-r--r--    1 deploy   deploy         20 Oct 23 09:41 page.html",
+    ),
+    remote(
+        "uploads",
+        "drwxr-xr-x    2 deploy   deploy       4096 Oct 23 09:41 uploads",
+    ),
+];
+
+const localFiles = [
+    // same size, older than the remote file
+    { path: "assets/app.js", size: 100, mtime: new Date(2024, 9, 22, 8, 0) },
+    // same size, but changed after the last upload
+    { path: "index.html", size: 50, mtime: new Date(2024, 9, 23, 11, 15) },
+    { path: "img/logo.png", size: 300, mtime: new Date(2024, 9, 22, 8, 0) },
+];
+
+function plan(options: {
+    compare: "size" | "mtime" | "size+mtime";
+    deleteRemote: boolean;
+    remoteBaseExists?: boolean;
+}) {
+    return createSyncPlan({
+        localBase: "/home/me/dist",
+        remoteBase: "/srv/www",
+        localFiles,
+        remoteEntries: options.remoteBaseExists === false ? [] : remoteEntries,
+        remoteBaseExists: options.remoteBaseExists ?? true,
+        filter: createPathFilter({ exclude: ["uploads"] }),
+        compare: options.compare,
+        deleteRemote: options.deleteRemote,
+    });
+}
+
+Deno.test("createSyncPlan - compares by size and mtime", () => {
+    const { actions, unchanged } = plan({
+        compare: "size+mtime",
+        deleteRemote: false,
+    });
+    assertEquals(actions, [
+        { type: "mkdir", path: "img", remotePath: "/srv/www/img" },
+        {
+            type: "upload",
+            path: "index.html",
+            localPath: "/home/me/dist/index.html",
+            remotePath: "/srv/www/index.html",
+            reason: "changed",
+        },
+        {
+            type: "upload",
+            path: "img/logo.png",
+            localPath: "/home/me/dist/img/logo.png",
+            remotePath: "/srv/www/img/logo.png",
+            reason: "new",
+        },
+    ]);
+    assertEquals(unchanged, ["assets/app.js"]);
+
+    const bySize = plan({ compare: "size", deleteRemote: false });
+    assertEquals(bySize.unchanged, ["assets/app.js", "index.html"]);
+});
+
+Deno.test("createSyncPlan - deletes children first and keeps excluded entries", () => {
+    const { actions } = plan({ compare: "size", deleteRemote: true });
+    assertEquals(
+        actions
+            .filter((action) => action.type === "delete")
+            .map((action) => action.path),
+        ["legacy/page.html", "legacy", "assets/old.js"],
+    );
+});
+
+Deno.test("createSyncPlan - creates a missing remote directory first", () => {
+    const { actions } = plan({
+        compare: "size+mtime",
+        deleteRemote: true,
+        remoteBaseExists: false,
+    });
+    assertEquals(
+        actions.map((action) => `${action.type} ${action.path}`),
+        [
+            "mkdir .",
+            "mkdir assets",
+            "mkdir img",
+            "upload assets/app.js",
+            "upload index.html",
+            "upload img/logo.png",
+        ],
+    );
+});
+
+Deno.test("createSyncPlan - compares the mtime with the precision of ls -l", () => {
+    const changed = (localMtime: Date, listedDate: string) =>
+        createSyncPlan({
+            localBase: "/home/me/dist",
+            remoteBase: "/srv/www",
+            localFiles: [{ path: "a.txt", size: 1, mtime: localMtime }],
+            remoteEntries: [
+                remote(
+                    "a.txt",
+                    `-rw-r--r--    1 1000     1000            1 ${listedDate} a.txt`,
+                ),
+            ],
+            remoteBaseExists: true,
+            filter: createPathFilter({}),
+            compare: "mtime",
+            deleteRemote: false,
+        }).unchanged.length === 0;
+
+    // recent entries: minutes
+    assertEquals(
+        changed(new Date(2024, 9, 23, 9, 41, 59), "Oct 23 09:41"),
+        false,
+    );
+    assertEquals(changed(new Date(2024, 9, 23, 9, 42), "Oct 23 09:41"), true);
+    // entries older than 6 months: days
+    assertEquals(changed(new Date(2024, 2, 1, 23, 59), "Mar  1  2024"), false);
+    assertEquals(changed(new Date(2024, 2, 2, 0, 0), "Mar  1  2024"), true);
+});
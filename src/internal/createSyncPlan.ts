@@ -0,0 +1,151 @@
+import { join } from "@std/path";
+import { join as joinRemote } from "@std/path/posix";
+import { match } from "ts-pattern";
+import type { RemoteEntry } from "../RemoteEntry.type.ts";
+import type { SyncAction, SyncCompare, SyncPlan } from "../SyncPlan.type.ts";
+import { isNewerThanLsMtime } from "./parseLsOutput.ts";
+
+/**
+ * A local file with the attributes, which are compared by the sync
+ */
+export type LocalTreeFile = { path: string; size: number; mtime: Date };
+
+/**
+ * An entry of a recursive remote listing, `path` is relative to the listed directory
+ */
+export type RemoteTreeEntry = { path: string; entry: RemoteEntry };
+
+/**
+ * Computes the actions, which make the remote directory a mirror of the local directory.
+ *
+ * @param localFiles the local files, which should exist remotely (already filtered by include and exclude)
+ * @param remoteEntries the remote files and directories (excluded directories are listed, but not their content)
+ * @param remoteBaseExists false, when the remote directory has to be created first
+ * @param filter the include and exclude filter, to keep excluded remote entries
+ */
+export function createSyncPlan(
+    {
+        localBase,
+        remoteBase,
+        localFiles,
+        remoteEntries,
+        remoteBaseExists,
+        filter,
+        compare,
+        deleteRemote,
+    }: {
+        localBase: string;
+        remoteBase: string;
+        localFiles: LocalTreeFile[];
+        remoteEntries: RemoteTreeEntry[];
+        remoteBaseExists: boolean;
+        filter: {
+            includes(path: string): boolean;
+            excludes(path: string): boolean;
+        };
+        compare: SyncCompare;
+        deleteRemote: boolean;
+    },
+): SyncPlan {
+    const remoteByPath = new Map(
+        remoteEntries.map(({ path, entry }) => [path, entry]),
+    );
+    const localFilePaths = new Set(localFiles.map((file) => file.path));
+    const localDirs = new Set(localFiles.flatMap((file) => parents(file.path)));
+
+    const mkdirs: SyncAction[] = [];
+    if (!remoteBaseExists) {
+        mkdirs.push({ type: "mkdir", path: ".", remotePath: remoteBase });
+    }
+    for (const dir of [...localDirs].sort()) {
+        if (remoteByPath.get(dir)?.type !== "directory") {
+            mkdirs.push({
+                type: "mkdir",
+                path: dir,
+                remotePath: joinRemote(remoteBase, dir),
+            });
+        }
+    }
+
+    const uploads: SyncAction[] = [];
+    const unchanged: string[] = [];
+    for (const file of localFiles) {
+        const remote = remoteByPath.get(file.path);
+        if (remote && !isChanged(file, remote, compare)) {
+            unchanged.push(file.path);
+            continue;
+        }
+        uploads.push({
+            type: "upload",
+            path: file.path,
+            localPath: join(localBase, ...file.path.split("/")),
+            remotePath: joinRemote(remoteBase, file.path),
+            reason: remote ? "changed" : "new",
+        });
+    }
+
+    const deletes: SyncAction[] = [];
+    if (deleteRemote) {
+        const isExcluded = ({ path, entry }: RemoteTreeEntry) =>
+            entry.type === "directory"
+                ? filter.excludes(path)
+                : !filter.includes(path);
+
+        // directories with excluded content can not be removed
+        const keptDirs = new Set(
+            remoteEntries.filter(isExcluded).flatMap(({ path }) =>
+                parents(path)
+            ),
+        );
+
+        for (const remote of remoteEntries) {
+            const { path, entry } = remote;
+            if (isExcluded(remote)) {
+                continue;
+            }
+            const existsLocally = entry.type === "directory"
+                ? localDirs.has(path) || keptDirs.has(path)
+                : localFilePaths.has(path);
+            if (!existsLocally) {
+                deletes.push({
+                    type: "delete",
+                    path,
+                    remotePath: joinRemote(remoteBase, path),
+                    entryType: entry.type,
+                });
+            }
+        }
+        // children before their parent directories
+        deletes.sort((a, b) => b.path.localeCompare(a.path));
+    }
+
+    return { actions: [...mkdirs, ...uploads, ...deletes], unchanged };
+}
+
+/**
+ * All parent directories of a relative path, e.g. "a/b/c.txt" => ["a", "a/b"]
+ */
+function parents(path: string): string[] {
+    const parts = path.split("/").slice(0, -1);
+    return parts.map((_, index) => parts.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Compares a local file with its remote entry.
+ * The remote mtime comes from `ls -ln`, which has minute precision (day precision for entries older than 6 months),
+ * so a local change within the listed minute is not detected by "mtime".
+ */
+function isChanged(
+    local: LocalTreeFile,
+    remote: RemoteEntry,
+    compare: SyncCompare,
+): boolean {
+    const sizeDiffers = local.size !== remote.size;
+    const isNewer = isNewerThanLsMtime(local.mtime, remote.mtime);
+
+    return match(compare)
+        .with("size", () => sizeDiffers)
+        .with("mtime", () => isNewer)
+        .with("size+mtime", () => sizeDiffers || isNewer)
+        .exhaustive();
+}
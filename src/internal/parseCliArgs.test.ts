@@ -0,0 +1,104 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CliUsageError, parseCliArgs } from "./parseCliArgs.ts";
+
+Deno.test("parseCliArgs - connection options", () => {
+    const args = parseCliArgs([
+        "upload",
+        "--host",
+        "example.com",
+        "-u",
+        "deploy",
+        "-P",
+        "2222",
+        "-i",
+        "./id_ed25519",
+        "-o",
+        "StrictHostKeyChecking=accept-new",
+        "-o",
+        "ServerAliveInterval=30",
+        "--log-mode",
+        "unknown-and-error",
+        "--json",
+        "--atomic",
+        "--verify",
+        "sha256",
+        "dist/app.js",
+        "/srv/www/app.js",
+    ], "/work");
+
+    assertEquals(args !== "help" && args.clientOptions, {
+        host: "example.com",
+        user: "deploy",
+        port: 2222,
+        identityFile: "./id_ed25519",
+        proxyJump: undefined,
+        sshConfig: undefined,
+        sshOptions: {
+            StrictHostKeyChecking: "accept-new",
+            ServerAliveInterval: "30",
+        },
+        cwd: "/work",
+        uploaderName: "sftp-client",
+        executable: undefined,
+        connectTimeoutMs: undefined,
+        logMode: "unknown-and-error",
+    });
+    assertEquals(args !== "help" && args.command, "upload");
+    assertEquals(args !== "help" && args.paths, [
+        "dist/app.js",
+        "/srv/www/app.js",
+    ]);
+    assertEquals(args !== "help" && [args.json, args.atomic, args.verify], [
+        true,
+        true,
+        "sha256",
+    ]);
+});
+
+Deno.test("parseCliArgs - command options", () => {
+    const mkdir = parseCliArgs(["mkdir", "--host", "h", "-p", "a/b"], "/");
+    assertEquals(mkdir !== "help" && mkdir.recursive, true);
+
+    const sync = parseCliArgs([
+        "sync",
+        "--host",
+        "h",
+        "--delete",
+        "--exclude",
+        "*.map",
+        "--exclude",
+        "tmp/**",
+        "dist",
+        "/srv/www",
+    ], "/");
+    assertEquals(sync !== "help" && [sync.delete, sync.exclude], [true, [
+        "*.map",
+        "tmp/**",
+    ]]);
+
+    assertEquals(parseCliArgs(["--help"], "/"), "help");
+    assertEquals(parseCliArgs([], "/"), "help");
+});
+
+Deno.test("parseCliArgs - usage errors", () => {
+    const cases = [
+        [["deploy", "--host", "h"], "Unknown command"],
+        [["ls", "--host", "h", "--nope"], "nope"],
+        [["ls", "--host", "h", "--delete"], "not supported by 'ls'"],
+        [["ls", "--host", "h", "a", "b"], "Wrong number of arguments"],
+        [["sync", "--host", "h", "dist"], "Wrong number of arguments"],
+        [["ls"], "'--host' is required"],
+        [["ls", "--host", "h", "--log-mode", "loud"], "unknown-and-error"],
+        [["ls", "--host", "h", "--port", "22a"], "must be a number"],
+        [["ls", "--host", "h", "-o", "=yes"], "Key=Value"],
+        [["upload", "--host", "h", "--check-space", "a", "b"], "check-space"],
+    ] as const;
+
+    for (const [args, message] of cases) {
+        assertThrows(
+            () => parseCliArgs([...args], "/"),
+            CliUsageError,
+            message,
+        );
+    }
+});
@@ -0,0 +1,343 @@
+import { parseArgs } from "node:util";
+import type { ClientOptions } from "../SftpClient.ts";
+import type { SyncCompare } from "../SyncPlan.type.ts";
+import type { VerifyMode } from "../TransferVerification.type.ts";
+
+/**
+ * The subcommands of the command line tool
+ */
+export type CliCommand = "upload" | "download" | "ls" | "sync" | "mkdir" | "rm";
+
+/**
+ * The parsed command line of the command line tool
+ */
+export type CliArgs = {
+    command: CliCommand;
+
+    /**
+     * The positional arguments after the subcommand (local and remote paths)
+     */
+    paths: string[];
+
+    /**
+     * The options for the SftpClient (without the logger, which is chosen by the command line tool)
+     */
+    clientOptions: Omit<ClientOptions, "logger">;
+
+    /**
+     * Print the result (or the error) as JSON to stdout
+     */
+    json: boolean;
+
+    recursive: boolean;
+    all: boolean;
+    long: boolean;
+    resume: boolean;
+    atomic: boolean;
+    verify?: VerifyMode;
+    checkSpace: boolean;
+    delete: boolean;
+    dryRun: boolean;
+    compare?: SyncCompare;
+    include?: string[];
+    exclude?: string[];
+};
+
+/**
+ * Thrown for invalid command lines (exit code 2 of the command line tool)
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CliUsageError";
+    }
+}
+
+const LOG_MODES = [
+    "normal",
+    "verbose",
+    "silent",
+    "only-unknown",
+    "unknown-and-error",
+] as const satisfies ClientOptions["logMode"][];
+
+const VERIFY_MODES = [
+    "size",
+    "size+mtime",
+    "sha256",
+] as const satisfies VerifyMode[];
+
+const SYNC_COMPARES = [
+    "size",
+    "mtime",
+    "size+mtime",
+] as const satisfies SyncCompare[];
+
+/**
+ * The options of node:util parseArgs, which are valid for all subcommands
+ */
+const GLOBAL_OPTIONS = {
+    host: { type: "string" },
+    user: { type: "string", short: "u" },
+    port: { type: "string", short: "P" },
+    "identity-file": { type: "string", short: "i" },
+    "proxy-jump": { type: "string", short: "J" },
+    "ssh-config": { type: "string", short: "F" },
+    "ssh-option": { type: "string", short: "o", multiple: true },
+    cwd: { type: "string" },
+    executable: { type: "string" },
+    "connect-timeout": { type: "string" },
+    "log-mode": { type: "string" },
+    json: { type: "boolean" },
+    help: { type: "boolean" },
+} as const;
+
+/**
+ * The options of node:util parseArgs, which are only valid for some subcommands (see COMMANDS)
+ */
+const COMMAND_OPTIONS = {
+    recursive: { type: "boolean", short: "r" },
+    all: { type: "boolean", short: "a" },
+    long: { type: "boolean", short: "l" },
+    parents: { type: "boolean", short: "p" },
+    resume: { type: "boolean" },
+    atomic: { type: "boolean" },
+    verify: { type: "string" },
+    "check-space": { type: "boolean" },
+    delete: { type: "boolean" },
+    "dry-run": { type: "boolean" },
+    compare: { type: "string" },
+    include: { type: "string", multiple: true },
+    exclude: { type: "string", multiple: true },
+} as const;
+
+const OPTIONS = { ...GLOBAL_OPTIONS, ...COMMAND_OPTIONS };
+
+/**
+ * The positional arguments and the command specific options of each subcommand
+ */
+const COMMANDS: Record<
+    CliCommand,
+    {
+        usage: string;
+        minPaths: number;
+        maxPaths: number;
+        options: (keyof typeof COMMAND_OPTIONS)[];
+    }
+> = {
+    upload: {
+        usage:
+            "upload [-r] [--resume] [--atomic] [--verify <mode>] [--check-space] [--include <glob>] [--exclude <glob>] <local> [remote]",
+        minPaths: 1,
+        maxPaths: 2,
+        options: [
+            "recursive",
+            "resume",
+            "atomic",
+            "verify",
+            "check-space",
+            "include",
+            "exclude",
+        ],
+    },
+    download: {
+        usage:
+            "download [-r] [--resume] [--verify <mode>] [--include <glob>] [--exclude <glob>] <remote> [local]",
+        minPaths: 1,
+        maxPaths: 2,
+        options: ["recursive", "resume", "verify", "include", "exclude"],
+    },
+    ls: {
+        usage: "ls [-a] [-l] [remote]",
+        minPaths: 0,
+        maxPaths: 1,
+        options: ["all", "long"],
+    },
+    sync: {
+        usage:
+            "sync [--delete] [--dry-run] [--compare <size|mtime|size+mtime>] [--include <glob>] [--exclude <glob>] <localDir> <remoteDir>",
+        minPaths: 2,
+        maxPaths: 2,
+        options: ["delete", "dry-run", "compare", "include", "exclude"],
+    },
+    mkdir: {
+        usage: "mkdir [-p] <remote>",
+        minPaths: 1,
+        maxPaths: 1,
+        options: ["parents"],
+    },
+    rm: {
+        usage: "rm [-r] <remote>",
+        minPaths: 1,
+        maxPaths: 1,
+        options: ["recursive"],
+    },
+};
+
+/**
+ * The help text of the command line tool
+ */
+export const CLI_USAGE =
+    `Usage: sftp-client <command> --host <host> [connection options] [--json] [--log-mode <mode>]
+
+Commands:
+${Object.values(COMMANDS).map(({ usage }) => `  ${usage}`).join("\n")}
+
+Connection options:
+  --host <host>             the host or ssh config alias (required)
+  -u, --user <user>         the remote user
+  -P, --port <port>         the ssh port
+  -i, --identity-file <f>   the private key
+  -J, --proxy-jump <jump>   a jump host ([user@]host[:port])
+  -F, --ssh-config <file>   an ssh config file
+  -o, --ssh-option <K=V>    an ssh option, can be repeated
+  --cwd <dir>               the local working directory (default: the current directory)
+  --executable <path>       the sftp executable (default: sftp)
+  --connect-timeout <ms>    the connection timeout in milliseconds (default: 30000)
+
+Output:
+  --json                    print the result or the error as JSON to stdout
+  --log-mode <mode>         ${
+        LOG_MODES.join(" | ")
+    } (default: normal, logs go to stderr)
+
+Exit codes: 0 success, 1 the command failed, 2 invalid arguments, 3 the connection failed`;
+
+/**
+ * Parses the command line of the command line tool.
+ * @param args the arguments after the executable, like `["upload", "--host", "example.com", "dist/app.js"]`
+ * @param defaultCwd the local working directory, if `--cwd` is not passed
+ * @returns the parsed arguments or "help", if the help text was requested
+ * @throws CliUsageError for unknown subcommands, unknown or invalid options and the wrong number of paths
+ */
+export function parseCliArgs(
+    args: string[],
+    defaultCwd: string,
+): CliArgs | "help" {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            options: OPTIONS,
+            allowPositionals: true,
+            strict: true,
+        });
+    } catch (error) {
+        throw new CliUsageError(
+            error instanceof Error ? error.message : String(error),
+        );
+    }
+    const { values, positionals } = parsed;
+    const [command, ...paths] = positionals;
+
+    if (values.help || command === undefined || command === "help") {
+        return "help";
+    }
+    if (!Object.hasOwn(COMMANDS, command)) {
+        throw new CliUsageError(`Unknown command '${command}'`);
+    }
+    const { usage, minPaths, maxPaths, options } =
+        COMMANDS[command as CliCommand];
+
+    const invalidOption = Object.keys(values).find((name) =>
+        !Object.hasOwn(GLOBAL_OPTIONS, name) &&
+        !options.includes(name as keyof typeof COMMAND_OPTIONS)
+    );
+    if (invalidOption !== undefined) {
+        throw new CliUsageError(
+            `Option '--${invalidOption}' is not supported by '${command}', usage: ${usage}`,
+        );
+    }
+    if (paths.length < minPaths || paths.length > maxPaths) {
+        throw new CliUsageError(
+            `Wrong number of arguments for '${command}', usage: ${usage}`,
+        );
+    }
+    if (
+        command === "upload" && values["check-space"] && !values.recursive &&
+        paths.length > 1
+    ) {
+        throw new CliUsageError(
+            "Option '--check-space' is only supported for uploads into the remote working directory and with '-r'",
+        );
+    }
+    if (values.host === undefined) {
+        throw new CliUsageError("Option '--host' is required");
+    }
+
+    return {
+        command: command as CliCommand,
+        paths,
+        clientOptions: {
+            host: values.host,
+            user: values.user,
+            port: parseInteger("port", values.port),
+            identityFile: values["identity-file"],
+            proxyJump: values["proxy-jump"],
+            sshConfig: values["ssh-config"],
+            sshOptions: parseSshOptions(values["ssh-option"] ?? []),
+            cwd: values.cwd ?? defaultCwd,
+            uploaderName: "sftp-client",
+            executable: values.executable,
+            connectTimeoutMs: parseInteger(
+                "connect-timeout",
+                values["connect-timeout"],
+            ),
+            logMode: parseChoice("log-mode", values["log-mode"], LOG_MODES),
+        },
+        json: values.json ?? false,
+        recursive: values.recursive ?? values.parents ?? false,
+        all: values.all ?? false,
+        long: values.long ?? false,
+        resume: values.resume ?? false,
+        atomic: values.atomic ?? false,
+        verify: parseChoice("verify", values.verify, VERIFY_MODES),
+        checkSpace: values["check-space"] ?? false,
+        delete: values.delete ?? false,
+        dryRun: values["dry-run"] ?? false,
+        compare: parseChoice("compare", values.compare, SYNC_COMPARES),
+        include: values.include,
+        exclude: values.exclude,
+    };
+}
+
+function parseInteger(
+    name: string,
+    value: string | undefined,
+): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (!/^\d+$/.test(value)) {
+        throw new CliUsageError(`Option '--${name}' must be a number`);
+    }
+    return Number(value);
+}
+
+function parseChoice<T extends string>(
+    name: string,
+    value: string | undefined,
+    choices: readonly T[],
+): T | undefined {
+    if (value !== undefined && !choices.includes(value as T)) {
+        throw new CliUsageError(
+            `Option '--${name}' must be one of: ${choices.join(", ")}`,
+        );
+    }
+    return value as T | undefined;
+}
+
+/**
+ * "ServerAliveInterval=30" => { ServerAliveInterval: "30" }
+ */
+function parseSshOptions(options: string[]): Record<string, string> {
+    return Object.fromEntries(options.map((option) => {
+        const separator = option.indexOf("=");
+        if (separator < 1) {
+            throw new CliUsageError(
+                `Option '--ssh-option' must have the format Key=Value, got '${option}'`,
+            );
+        }
+        return [option.slice(0, separator), option.slice(separator + 1)];
+    }));
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from "@std/assert";
+import { parseDfOutput } from "./parseDfOutput.ts";
+
+Deno.test("parseDfOutput - blocks and inodes", () => {
+    assertEquals(
+        parseDfOutput([
+            "        Size         Used        Avail       (root)    %Capacity",
+            "   264212084     18636652     83659476    245575432           7%",
+        ]),
+        {
+            total: 264212084,
+            used: 18636652,
+            available: 83659476,
+            availableToRoot: 245575432,
+            capacityPercent: 7,
+        },
+    );
+    assertEquals(
+        parseDfOutput([
+            "     Inodes        Used       Avail      (root)    %Capacity",
+            "   16777216      560703    16216513    16216513           3%",
+        ])?.total,
+        16777216,
+    );
+});
+
+Deno.test("parseDfOutput - errors", () => {
+    assertEquals(parseDfOutput([]), undefined);
+    assertEquals(
+        parseDfOutput([
+            "Server does not support statvfs@openssh.com extension",
+        ]),
+        undefined,
+    );
+    assertEquals(
+        parseDfOutput([
+            "    Size     Used    Avail   (root)    %Capacity",
+            "   252GB   17.8GB   79.8GB    234GB           7%",
+        ]),
+        undefined,
+    );
+});
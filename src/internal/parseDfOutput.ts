@@ -0,0 +1,37 @@
+/**
+ * The values of `df` or `df -i` output.
+ * The columns are the same for both, `df` prints them in kilobytes, `df -i` as inode counts.
+ */
+export type DfRow = {
+    total: number;
+    used: number;
+    available: number;
+    availableToRoot: number;
+    capacityPercent: number;
+};
+
+// detects the header and the values (the header of `df -i` starts with "Inodes"):
+//         Size         Used        Avail       (root)    %Capacity
+//    264212084     18636652     83659476    245575432           7%
+const DF_HEADER = /^\s*(Size|Inodes)\s+Used\s+Avail\s+\(root\)\s+%Capacity\s*$/;
+const DF_VALUES = /^\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+(\d+)%\s*$/;
+
+/**
+ * Parses the output of the `df` command of the sftp cli (without `-h`).
+ * @param output the output lines of the command
+ * @returns the values below the header or undefined, if the output contains no values (e.g. an error message)
+ */
+export function parseDfOutput(output: string[]): DfRow | undefined {
+    const headerIndex = output.findIndex((line) => DF_HEADER.test(line));
+    if (headerIndex === -1) {
+        return undefined;
+    }
+    const values = DF_VALUES.exec(output[headerIndex + 1] ?? "");
+    if (!values) {
+        return undefined;
+    }
+    const [total, used, available, availableToRoot, capacityPercent] = values
+        .slice(1)
+        .map(Number);
+    return { total, used, available, availableToRoot, capacityPercent };
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import {
+    matchesLsMtime,
+    parseLsLine,
+    parseLsOutput,
+    parsePermissions,
+} from "./parseLsOutput.ts";
+
+const now = new Date(2024, 9, 23, 12, 0);
+
+Deno.test("parseLsLine - file", () => {
+    const line =
+        "-rw-r--r--    1 deploy   www-data     1234 Oct 18 09:41 index.html";
+    assertEquals(parseLsLine(line, now), {
+        name: "index.html",
+        type: "file",
+        permissions: "rw-r--r--",
+        mode: 0o644,
+        links: 1,
+        owner: "deploy",
+        group: "www-data",
+        size: 1234,
+        mtime: new Date(2024, 9, 18, 9, 41),
+        linkTarget: undefined,
+        longname: line,
+    });
+});
+
+Deno.test("parseLsLine - directory with year instead of time", () => {
+    const entry = parseLsLine(
+        "drwxr-xr-x    3 deploy   deploy       4096 Jan  1  2020 old releases",
+        now,
+    );
+    assertEquals(entry?.type, "directory");
+    assertEquals(entry?.name, "old releases");
+    assertEquals(entry?.mtime, new Date(2020, 0, 1));
+});
+
+Deno.test("parseLsLine - date without year in the future belongs to last year", () => {
+    const entry = parseLsLine(
+        "-rw-r--r--    1 deploy   deploy          0 Dec 24 18:00 xmas.txt",
+        now,
+    );
+    assertEquals(entry?.mtime, new Date(2023, 11, 24, 18, 0));
+});
+
+Deno.test("parseLsLine - symlink with unknown link count and target", () => {
+    const entry = parseLsLine(
+        "lrwxrwxrwx    ? 1000     1000           18 Oct 18 04:48 current -> releases/2024-10-18",
+        now,
+    );
+    assertEquals(entry?.type, "symlink");
+    assertEquals(entry?.links, undefined);
+    assertEquals(entry?.owner, "1000");
+    assertEquals(entry?.name, "current");
+    assertEquals(entry?.linkTarget, "releases/2024-10-18");
+});
+
+Deno.test("parsePermissions - special bits", () => {
+    assertEquals(parsePermissions("rwxr-xr-x"), 0o755);
+    assertEquals(parsePermissions("rwsr-sr-t"), 0o7755);
+    assertEquals(parsePermissions("rwSr-Sr-T"), 0o7644);
+});
+
+Deno.test("parseLsOutput - collects unparsable lines", () => {
+    const { entries, unparsed } = parseLsOutput([
+        "drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 .",
+        "some other output",
+    ], now);
+    assertEquals(entries.length, 1);
+    assertEquals(unparsed, ["some other output"]);
+});
+
+Deno.test("matchesLsMtime - minute and day precision", () => {
+    const precise = new Date(2024, 9, 18, 9, 41, 37);
+    assertEquals(matchesLsMtime(precise, new Date(2024, 9, 18, 9, 41)), true);
+    assertEquals(matchesLsMtime(precise, new Date(2024, 9, 18, 9, 42)), false);
+    assertEquals(matchesLsMtime(precise, new Date(2024, 9, 18)), true);
+    assertEquals(matchesLsMtime(precise, new Date(2024, 9, 17)), false);
+});
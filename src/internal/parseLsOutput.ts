@@ -0,0 +1,214 @@
+import type { RemoteEntry, RemoteEntryType } from "../RemoteEntry.type.ts";
+
+/**
+ * Matches one line of `ls -l` output, as printed by the sftp cli.
+ * Examples:
+ *   drwxr-xr-x    3 deploy   deploy       4096 Oct 23 09:41 .
+ *   -rw-r--r--    1 deploy   deploy        220 Oct 23  2023 .bash_logout
+ *   lrwxrwxrwx    ? 1000     1000            5 Oct 18 04:48 current
+ */
+const LS_LONG_LINE =
+    /^([-dlcbps])([-rwxsStT]{9})\S*\s+(\d+|\?)\s+(\S+)\s+(\S+)\s+(\d+)\s+([A-Z][a-z]{2})\s+(\d{1,2})\s+(\d{1,2}:\d{2}|\d{4}) (.+)$/;
+
+const MONTHS = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+];
+
+const ENTRY_TYPES: Record<string, RemoteEntryType> = {
+    "-": "file",
+    "d": "directory",
+    "l": "symlink",
+    "b": "block-device",
+    "c": "char-device",
+    "p": "fifo",
+    "s": "socket",
+};
+
+/**
+ * Parses the 9 character permission string of `ls -l` (like "rwsr-xr-t") into the numeric permission bits.
+ */
+export function parsePermissions(permissions: string): number {
+    let mode = 0;
+    const triplets = [
+        permissions.slice(0, 3),
+        permissions.slice(3, 6),
+        permissions.slice(6, 9),
+    ];
+    // setuid, setgid, sticky - in the order of the triplets
+    const specialBits = [0o4000, 0o2000, 0o1000];
+    const specialChars = ["s", "s", "t"];
+
+    triplets.forEach((triplet, index) => {
+        const shift = (2 - index) * 3;
+        if (triplet[0] === "r") mode |= 0o4 << shift;
+        if (triplet[1] === "w") mode |= 0o2 << shift;
+
+        const execute = triplet[2];
+        if (execute === "x" || execute === specialChars[index]) {
+            mode |= 0o1 << shift;
+        }
+        if (execute.toLowerCase() === specialChars[index]) {
+            mode |= specialBits[index];
+        }
+    });
+
+    return mode;
+}
+
+/**
+ * Parses the date columns of `ls -l`.
+ * Recent entries are printed with a time instead of a year ("Oct 18 04:48"),
+ * in this case the year is the current one - or the last one, if the date would be in the future otherwise.
+ */
+function parseLsDate(
+    month: string,
+    day: string,
+    timeOrYear: string,
+    now: Date,
+): Date {
+    const monthIndex = MONTHS.indexOf(month);
+
+    if (!timeOrYear.includes(":")) {
+        return new Date(Number(timeOrYear), monthIndex, Number(day));
+    }
+
+    const [hours, minutes] = timeOrYear.split(":").map(Number);
+    const date = new Date(
+        now.getFullYear(),
+        monthIndex,
+        Number(day),
+        hours,
+        minutes,
+    );
+
+    // allow some clock skew between client and server before assuming the last year
+    const oneDay = 24 * 60 * 60 * 1000;
+    if (date.getTime() > now.getTime() + oneDay) {
+        date.setFullYear(now.getFullYear() - 1);
+    }
+    return date;
+}
+
+/**
+ * Compares a precise modification time with the mtime of an `ls -l` line,
+ * which has minute precision for recent entries and day precision for older ones (printed with the year).
+ */
+export function matchesLsMtime(precise: Date, listed: Date): boolean {
+    const preciseMinute = Math.floor(precise.getTime() / 60_000) * 60_000;
+    if (preciseMinute === listed.getTime()) {
+        return true;
+    }
+    return isDayPrecision(listed) &&
+        precise.toDateString() === listed.toDateString();
+}
+
+/**
+ * Checks whether a precise modification time is newer than the mtime of an `ls -l` line,
+ * compared with the precision of the line (see {@link matchesLsMtime}):
+ * a change within the listed minute (or day for older entries) is not newer.
+ */
+export function isNewerThanLsMtime(precise: Date, listed: Date): boolean {
+    if (isDayPrecision(listed)) {
+        const nextDay = new Date(listed);
+        nextDay.setDate(listed.getDate() + 1);
+        return precise.getTime() >= nextDay.getTime();
+    }
+    const preciseMinute = Math.floor(precise.getTime() / 60_000) * 60_000;
+    return preciseMinute > listed.getTime();
+}
+
+/**
+ * Entries older than 6 months are printed with the year instead of the time, which is parsed as midnight
+ */
+function isDayPrecision(listed: Date): boolean {
+    return listed.getHours() === 0 && listed.getMinutes() === 0;
+}
+
+/**
+ * Parses one line of `ls -l` output into a {@link RemoteEntry}.
+ * @param line one output line of the sftp `ls -l` command
+ * @param now optional - the reference date for entries printed without a year (default: the current date)
+ * @returns the parsed entry or undefined, if the line is not an `ls -l` line
+ */
+export function parseLsLine(
+    line: string,
+    now: Date = new Date(),
+): RemoteEntry | undefined {
+    const found = LS_LONG_LINE.exec(line.trimEnd());
+    if (!found) {
+        return undefined;
+    }
+
+    const [
+        _line,
+        typeChar,
+        permissions,
+        links,
+        owner,
+        group,
+        size,
+        month,
+        day,
+        timeOrYear,
+        rawName,
+    ] = found;
+
+    const type = ENTRY_TYPES[typeChar];
+    let name = rawName;
+    let linkTarget: string | undefined;
+
+    if (type === "symlink" && rawName.includes(" -> ")) {
+        const arrowIndex = rawName.indexOf(" -> ");
+        name = rawName.slice(0, arrowIndex);
+        linkTarget = rawName.slice(arrowIndex + 4);
+    }
+
+    return {
+        name,
+        type,
+        permissions,
+        mode: parsePermissions(permissions),
+        links: links === "?" ? undefined : Number(links),
+        owner,
+        group,
+        size: Number(size),
+        mtime: parseLsDate(month, day, timeOrYear, now),
+        linkTarget,
+        longname: line,
+    };
+}
+
+/**
+ * Parses the output lines of an `ls -l` command.
+ * @param lines the output lines of the sftp `ls -l` command (without the `sftp>` prompt lines)
+ * @returns the parsed entries and all lines which could not be parsed
+ */
+export function parseLsOutput(
+    lines: string[],
+    now: Date = new Date(),
+): { entries: RemoteEntry[]; unparsed: string[] } {
+    const entries: RemoteEntry[] = [];
+    const unparsed: string[] = [];
+
+    for (const line of lines) {
+        const entry = parseLsLine(line, now);
+        if (entry) {
+            entries.push(entry);
+        } else {
+            unparsed.push(line);
+        }
+    }
+
+    return { entries, unparsed };
+}
@@ -0,0 +1,13 @@
+import { assertEquals } from "@std/assert";
+import { quoteSftpPath } from "./quoteSftpPath.ts";
+
+Deno.test("quoteSftpPath - wraps the path in double quotes", () => {
+    assertEquals(quoteSftpPath("dist/app.js"), '"dist/app.js"');
+    assertEquals(quoteSftpPath("my files/*.txt"), '"my files/*.txt"');
+    assertEquals(quoteSftpPath("it's"), `"it's"`);
+});
+
+Deno.test("quoteSftpPath - escapes double quotes and backslashes", () => {
+    assertEquals(quoteSftpPath('say "hi"'), '"say \\"hi\\""');
+    assertEquals(quoteSftpPath("back\\slash"), '"back\\\\slash"');
+});
@@ -0,0 +1,13 @@
+/**
+ * Quotes a path for a command of the sftp cli.
+ * The sftp cli splits its commands at whitespace and expands glob patterns (like `*` and `?`) in the paths of
+ * `put`, `get`, `rm`, `ls` and most other commands, but not inside of quotes.
+ * So every path is wrapped in double quotes, with `"` and `\` escaped by a backslash.
+ *
+ * @example
+ * quoteSftpPath('my files/*.txt') // => '"my files/*.txt"'
+ * quoteSftpPath('say "hi"') // => '"say \\"hi\\""'
+ */
+export function quoteSftpPath(path: string): string {
+    return `"${path.replace(/["\\]/g, "\\$&")}"`;
+}
@@ -0,0 +1,27 @@
+// detects the start of an upload with put or reput:
+// Uploading some/local/path/file.ext to /some/remote/path/file.ext
+// Resuming upload of some/local/path/file.ext to /some/remote/path/file.ext
+export const UPLOAD_ANNOUNCEMENT =
+    /^(?:Uploading|Resuming upload of) (.+) to (.+)$/;
+
+// detects the start of a download with get or reget:
+// Fetching /some/remote/path/file.ext to some/local/path/file.ext
+// Resuming /some/remote/path/file.ext to some/local/path/file.ext
+export const DOWNLOAD_ANNOUNCEMENT = /^(?:Fetching|Resuming) (.+) to (.+)$/;
+
+// detects the announcements of rm, chmod, chown and chgrp:
+// Removing /some/remote/path/file.ext
+// Changing mode on /some/remote/path/file.ext
+export const CHANGE_ANNOUNCEMENT =
+    /^(?:Removing|Changing (?:mode|owner|group) on) /;
+
+/**
+ * Whether an output line of the sftp cli is an informational line of a successful command
+ * (transfer announcements, the announcements of rm, chmod, chown and chgrp).
+ * All other output lines of the commands without output (like cd, mkdir and rename) are error messages.
+ */
+export function isInfoLine(line: string): boolean {
+    return UPLOAD_ANNOUNCEMENT.test(line) ||
+        DOWNLOAD_ANNOUNCEMENT.test(line) ||
+        CHANGE_ANNOUNCEMENT.test(line);
+}
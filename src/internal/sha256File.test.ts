@@ -0,0 +1,12 @@
+import { assertEquals } from "@std/assert";
+import { sha256File } from "./sha256File.ts";
+
+Deno.test("sha256File", async () => {
+    const path = await Deno.makeTempFile();
+    await Deno.writeTextFile(path, "hello world!");
+    assertEquals(
+        await sha256File(path),
+        "7509e5bda0c762d2bac7f90d758b5b2263fa01ccbc542ab5e3df163be08e6ca9",
+    );
+    await Deno.remove(path);
+});
@@ -0,0 +1,14 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+
+/**
+ * Computes the SHA-256 hash of a local file, without reading it into memory at once.
+ * @returns the hash as lowercase hex string
+ */
+export async function sha256File(path: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(path)) {
+        hash.update(chunk);
+    }
+    return hash.digest("hex");
+}
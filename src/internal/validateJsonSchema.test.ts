@@ -0,0 +1,56 @@
+import { assertEquals } from "@std/assert";
+import { type JsonSchema, validateJsonSchema } from "./validateJsonSchema.ts";
+
+const schema: JsonSchema = {
+    type: "object",
+    required: ["name"],
+    additionalProperties: false,
+    properties: {
+        name: { type: "string", minLength: 1 },
+        mode: { type: "string", pattern: "^[0-7]{3}$" },
+        tags: { type: "array", items: { type: "string" } },
+        level: { type: "integer", enum: [1, 2] },
+        nested: {
+            type: "object",
+            properties: { enabled: { type: "boolean" } },
+        },
+    },
+};
+
+Deno.test("validateJsonSchema - valid values", () => {
+    assertEquals(validateJsonSchema({ name: "a" }, schema), []);
+    assertEquals(
+        validateJsonSchema({
+            name: "a",
+            mode: "755",
+            tags: ["x", "y"],
+            level: 2,
+            nested: { enabled: true, other: 1 },
+        }, schema),
+        [],
+    );
+});
+
+Deno.test("validateJsonSchema - errors with the JSON pointer", () => {
+    assertEquals(validateJsonSchema([], schema), ["/: must be an object"]);
+    assertEquals(
+        validateJsonSchema({
+            mode: "8",
+            tags: ["x", 1],
+            level: 3,
+            nested: { enabled: "yes" },
+            extra: true,
+        }, schema),
+        [
+            "/: must have the property 'name'",
+            "/mode: must match the pattern ^[0-7]{3}$",
+            "/tags/1: must be a string",
+            "/level: must be one of [1,2]",
+            "/nested/enabled: must be a boolean",
+            "/: must not have the property 'extra'",
+        ],
+    );
+    assertEquals(validateJsonSchema({ name: "" }, schema), [
+        "/name: must not be shorter than 1 characters",
+    ]);
+});
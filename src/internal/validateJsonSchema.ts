@@ -0,0 +1,110 @@
+/**
+ * The subset of JSON schema, which validateJsonSchema() supports
+ * (enough for the schemas of this package, like deploy-manifest.schema.json)
+ */
+export type JsonSchema = {
+    type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minLength?: number;
+    pattern?: string;
+    enum?: unknown[];
+    description?: string;
+};
+
+/**
+ * Validates a value against a JSON schema.
+ * Supported keywords: type, properties, required, additionalProperties (boolean), items, minLength, pattern and enum.
+ * Other keywords (like $schema, title and description) are ignored.
+ *
+ * @returns the errors with the JSON pointer of the invalid value, like `/uploads/0/to: must be a string`,
+ * an empty array, if the value is valid
+ */
+export function validateJsonSchema(
+    value: unknown,
+    schema: JsonSchema,
+    pointer = "",
+): string[] {
+    const at = pointer || "/";
+
+    if (schema.type !== undefined && !hasType(value, schema.type)) {
+        return [
+            `${at}: must be ${
+                /^[aeiou]/.test(schema.type) ? "an" : "a"
+            } ${schema.type}`,
+        ];
+    }
+    if (schema.enum !== undefined && !schema.enum.includes(value)) {
+        return [`${at}: must be one of ${JSON.stringify(schema.enum)}`];
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            return [
+                `${at}: must not be shorter than ${schema.minLength} characters`,
+            ];
+        }
+        if (
+            schema.pattern !== undefined &&
+            !new RegExp(schema.pattern, "u").test(value)
+        ) {
+            return [`${at}: must match the pattern ${schema.pattern}`];
+        }
+        return [];
+    }
+
+    if (Array.isArray(value)) {
+        const { items } = schema;
+        return items === undefined
+            ? []
+            : value.flatMap((item, index) =>
+                validateJsonSchema(item, items, `${pointer}/${index}`)
+            );
+    }
+
+    if (typeof value === "object" && value !== null) {
+        const properties = schema.properties ?? {};
+        const record = value as Record<string, unknown>;
+        return [
+            ...(schema.required ?? [])
+                .filter((name) => !Object.hasOwn(record, name))
+                .map((name) => `${at}: must have the property '${name}'`),
+            ...Object.entries(record).flatMap(([name, property]) =>
+                Object.hasOwn(properties, name)
+                    ? validateJsonSchema(
+                        property,
+                        properties[name],
+                        `${pointer}/${name}`,
+                    )
+                    : schema.additionalProperties === false
+                    ? [`${at}: must not have the property '${name}'`]
+                    : []
+            ),
+        ];
+    }
+
+    return [];
+}
+
+function hasType(
+    value: unknown,
+    type: NonNullable<JsonSchema["type"]>,
+): boolean {
+    switch (type) {
+        case "object":
+            return typeof value === "object" && value !== null &&
+                !Array.isArray(value);
+        case "array":
+            return Array.isArray(value);
+        case "integer":
+            return Number.isInteger(value);
+        case "number":
+            return typeof value === "number";
+        case "string":
+            return typeof value === "string";
+        case "boolean":
+            return typeof value === "boolean";
+    }
+}
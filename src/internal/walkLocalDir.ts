@@ -0,0 +1,42 @@
+import { readdir, stat } from "node:fs/promises";
+import { join } from "@std/path";
+
+/**
+ * Lists all files in a local directory recursively.
+ * Symlinks are followed (like `put` does), hidden files are included.
+ *
+ * @param localDir the local directory to list
+ * @param skipDir optional - called with the relative path of each sub directory, return true to skip its content
+ * @returns the relative paths of all files with "/" as separator, sorted by name
+ */
+export async function walkLocalDir(
+    localDir: string,
+    skipDir: (relativePath: string) => boolean = () => false,
+): Promise<string[]> {
+    const files: string[] = [];
+
+    async function walk(relativeDir: string) {
+        const entries = await readdir(join(localDir, relativeDir), {
+            withFileTypes: true,
+        });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+
+        for (const entry of entries) {
+            const relativePath = relativeDir
+                ? `${relativeDir}/${entry.name}`
+                : entry.name;
+            const isDirectory = entry.isSymbolicLink()
+                ? (await stat(join(localDir, relativePath))).isDirectory()
+                : entry.isDirectory();
+
+            if (!isDirectory) {
+                files.push(relativePath);
+            } else if (!skipDir(relativePath)) {
+                await walk(relativePath);
+            }
+        }
+    }
+
+    await walk("");
+    return files;
+}
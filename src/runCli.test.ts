@@ -0,0 +1,89 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import { FAKE_SFTP_EXECUTABLE, transcriptPath } from "../test/fake_sftp/mod.ts";
+import { CLI_EXIT_CODES, runCli } from "./runCli.ts";
+
+/**
+ * Runs the command line tool against the fake sftp executable and records its output
+ */
+async function runFakeCli(transcript: string, args: string[]) {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const exitCode = await runCli([
+        ...args,
+        "--host",
+        transcriptPath(transcript),
+        "--executable",
+        FAKE_SFTP_EXECUTABLE,
+        "--cwd",
+        "playground",
+        "--log-mode",
+        "silent",
+    ], {
+        stdout: (line) => stdout.push(line),
+        stderr: (line) => stderr.push(line),
+    });
+    return { exitCode, stdout, stderr };
+}
+
+Deno.test("runCli - ls", async () => {
+    const text = await runFakeCli("basic", ["ls", "-a"]);
+    assertEquals(text.exitCode, CLI_EXIT_CODES.success);
+    assertEquals(text.stdout, [
+        ".",
+        "..",
+        ".bash_logout",
+        "index.html",
+        "assets",
+        "current",
+    ]);
+
+    const json = await runFakeCli("basic", ["ls", "-a", "--json"]);
+    assertEquals(json.exitCode, CLI_EXIT_CODES.success);
+    const { ok, command, result } = JSON.parse(json.stdout[0]);
+    assertEquals([ok, command, result[3].name, result[3].size], [
+        true,
+        "ls",
+        "index.html",
+        1234,
+    ]);
+});
+
+Deno.test("runCli - upload", async () => {
+    const { exitCode, stdout } = await runFakeCli("basic", [
+        "upload",
+        "local.txt",
+        "backup/local.txt",
+    ]);
+    assertEquals(exitCode, CLI_EXIT_CODES.success);
+    assertEquals(stdout, ["local.txt -> backup/local.txt"]);
+});
+
+Deno.test("runCli - failed command", async () => {
+    const text = await runFakeCli("basic", ["download", "missing.txt"]);
+    assertEquals(text.exitCode, CLI_EXIT_CODES.failure);
+    assertEquals(text.stdout, []);
+    assertMatch(text.stderr.join("\n"), /missing\.txt.*not found/);
+
+    const json = await runFakeCli("basic", [
+        "download",
+        "--json",
+        "missing.txt",
+    ]);
+    assertEquals(json.exitCode, CLI_EXIT_CODES.failure);
+    const { ok, error } = JSON.parse(json.stdout[0]);
+    assertEquals([ok, error.name, error.paths], [
+        false,
+        "NoSuchFileError",
+        ["missing.txt", "."],
+    ]);
+});
+
+Deno.test("runCli - connection failure and usage errors", async () => {
+    const connection = await runFakeCli("auth_failure", ["ls"]);
+    assertEquals(connection.exitCode, CLI_EXIT_CODES.connection);
+    assertMatch(connection.stderr.join("\n"), /Permission denied/);
+
+    const usage = await runFakeCli("basic", ["ls", "--recursive"]);
+    assertEquals(usage.exitCode, CLI_EXIT_CODES.usage);
+    assertMatch(usage.stderr[0], /not supported by 'ls'/);
+});
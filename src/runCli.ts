@@ -0,0 +1,298 @@
+import { basename } from "@std/path";
+import process from "node:process";
+import type { GenericLogger } from "./GenericLogger.type.ts";
+import {
+    CLI_USAGE,
+    type CliArgs,
+    CliUsageError,
+    parseCliArgs,
+} from "./internal/parseCliArgs.ts";
+import type { RemoteEntry } from "./RemoteEntry.type.ts";
+import { SftpClient } from "./SftpClient.ts";
+import { SftpError } from "./SftpError.ts";
+import type { SyncPlan } from "./SyncPlan.type.ts";
+
+/**
+ * The exit codes of the command line tool
+ */
+export const CLI_EXIT_CODES = {
+    success: 0,
+
+    /**
+     * The command failed, e.g. with a NoSuchFileError or a VerificationError
+     */
+    failure: 1,
+
+    /**
+     * Invalid arguments
+     */
+    usage: 2,
+
+    /**
+     * The connection could not be established, e.g. with an AuthenticationError
+     */
+    connection: 3,
+} as const;
+
+/**
+ * Where the command line tool prints its output
+ */
+export type CliOutput = {
+    /**
+     * Receives the result (text or JSON), one call per line
+     */
+    stdout(line: string): void;
+
+    /**
+     * Receives the logs of the SftpClient, the usage and the error messages, one call per line
+     */
+    stderr(line: string): void;
+};
+
+/**
+ * The result of one subcommand with the lines for the text output
+ */
+type CliResult = {
+    result: unknown;
+    lines: string[];
+
+    /**
+     * True, if the command completed, but some files failed (like in `download -r`)
+     */
+    partial?: boolean;
+};
+
+/**
+ * Runs the command line tool (see `cli.ts`): parses the arguments, connects an SftpClient,
+ * runs the subcommand and prints the result as text or, with `--json`, as JSON.
+ *
+ * @param args the arguments after the executable, like `["ls", "--host", "example.com", "-l", "/srv/www"]`
+ * @param output optional - where to print (default: stdout and stderr of the process)
+ * @returns the exit code, see {@link CLI_EXIT_CODES}
+ */
+export async function runCli(
+    args: string[],
+    output: CliOutput = {
+        stdout: (line) => console.log(line),
+        stderr: (line) => console.error(line),
+    },
+): Promise<number> {
+    let cliArgs: CliArgs | "help";
+    try {
+        cliArgs = parseCliArgs(args, process.cwd());
+    } catch (error) {
+        if (!(error instanceof CliUsageError)) {
+            throw error;
+        }
+        output.stderr(`sftp-client: ${error.message}`);
+        output.stderr("Run 'sftp-client --help' for the usage");
+        return CLI_EXIT_CODES.usage;
+    }
+    if (cliArgs === "help") {
+        output.stdout(CLI_USAGE);
+        return CLI_EXIT_CODES.success;
+    }
+    const { command, json } = cliArgs;
+
+    const print = (result: CliResult) => {
+        if (json) {
+            output.stdout(
+                JSON.stringify({
+                    ok: !result.partial,
+                    command,
+                    result: result.result,
+                }),
+            );
+        } else {
+            result.lines.forEach((line) => output.stdout(line));
+        }
+    };
+    const printError = (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        if (json) {
+            output.stdout(JSON.stringify({
+                ok: false,
+                command,
+                error: error instanceof SftpError
+                    ? {
+                        name: error.name,
+                        message,
+                        command: error.command,
+                        paths: error.paths,
+                        output: error.output,
+                    }
+                    : {
+                        name: error instanceof Error ? error.name : "Error",
+                        message,
+                    },
+            }));
+        } else {
+            output.stderr(`sftp-client: ${message}`);
+        }
+    };
+
+    let client: SftpClient;
+    try {
+        client = new SftpClient({
+            ...cliArgs.clientOptions,
+            logger: createStderrLogger(output),
+        });
+    } catch (error) {
+        // invalid connection options, see buildSftpArgs()
+        printError(error);
+        return CLI_EXIT_CODES.usage;
+    }
+
+    try {
+        await client.connected;
+    } catch (error) {
+        printError(error);
+        await client.kill().catch(() => {
+            // the sftp cli exited already
+        });
+        return CLI_EXIT_CODES.connection;
+    }
+
+    let exitCode: number;
+    try {
+        const result = await runCommand(client, cliArgs);
+        print(result);
+        exitCode = result.partial
+            ? CLI_EXIT_CODES.failure
+            : CLI_EXIT_CODES.success;
+    } catch (error) {
+        printError(error);
+        exitCode = error instanceof SftpError && error.command === "connect"
+            ? CLI_EXIT_CODES.connection
+            : CLI_EXIT_CODES.failure;
+    }
+
+    try {
+        await client.close();
+    } catch (error) {
+        if (exitCode === CLI_EXIT_CODES.success) {
+            printError(error);
+            exitCode = CLI_EXIT_CODES.failure;
+        }
+    }
+    return exitCode;
+}
+
+/**
+ * Runs one subcommand
+ */
+async function runCommand(
+    client: SftpClient,
+    args: CliArgs,
+): Promise<CliResult> {
+    const [first, second] = args.paths;
+    const filters = { include: args.include, exclude: args.exclude };
+
+    switch (args.command) {
+        case "upload": {
+            if (args.recursive) {
+                const transfers = await client.uploadDirectory(
+                    first,
+                    second ?? basename(first),
+                    { ...filters, checkSpace: args.checkSpace },
+                );
+                return {
+                    result: transfers,
+                    lines: transfers.map(({ localPath, remotePath }) =>
+                        `${localPath} -> ${remotePath}`
+                    ),
+                };
+            }
+            const transferOptions = {
+                resume: args.resume,
+                atomic: args.atomic,
+                verify: args.verify ?? false,
+            };
+            // only uploadFiles() has the space check, it uploads into the remote working directory
+            const result = second === undefined
+                ? (await client.uploadFiles([first], {
+                    ...transferOptions,
+                    checkSpace: args.checkSpace,
+                }))[0]
+                : await client.uploadFile(first, second, transferOptions);
+            return {
+                result,
+                lines: [`${first} -> ${second ?? basename(first)}`],
+            };
+        }
+        case "download": {
+            if (args.recursive) {
+                const result = await client.downloadDirectory(
+                    first,
+                    second ?? basename(first),
+                    filters,
+                );
+                return {
+                    result,
+                    lines: [
+                        ...result.files.map(({ remotePath, localPath }) =>
+                            `${remotePath} -> ${localPath}`
+                        ),
+                        ...result.failed.map(({ remotePath, error }) =>
+                            `failed: ${remotePath}: ${error?.message}`
+                        ),
+                    ],
+                    partial: result.failed.length > 0,
+                };
+            }
+            const result = await client.downloadFile(first, second, {
+                resume: args.resume,
+                verify: args.verify ?? false,
+            });
+            return {
+                result,
+                lines: [`${first} -> ${second ?? basename(first)}`],
+            };
+        }
+        case "ls": {
+            const entries = await client.ls(first, { all: args.all });
+            return {
+                result: entries,
+                lines: entries.map((entry: RemoteEntry) =>
+                    args.long ? entry.longname : entry.name
+                ),
+            };
+        }
+        case "sync": {
+            const plan = await client.sync(first, second, {
+                ...filters,
+                delete: args.delete,
+                dryRun: args.dryRun,
+                compare: args.compare,
+            });
+            return { result: plan, lines: formatSyncPlan(plan) };
+        }
+        case "mkdir":
+            await client.mkdir(first, { recursive: args.recursive });
+            return { result: { path: first }, lines: [] };
+        case "rm":
+            await (args.recursive
+                ? client.rmRecursive(first)
+                : client.rm(first));
+            return { result: { path: first }, lines: [] };
+    }
+}
+
+/**
+ * One line per action, like `upload assets/app.js (changed)`
+ */
+function formatSyncPlan(plan: SyncPlan): string[] {
+    return plan.actions.map((action) =>
+        action.type === "upload"
+            ? `upload ${action.path} (${action.reason})`
+            : `${action.type} ${action.path}`
+    );
+}
+
+/**
+ * Prints all logs of the SftpClient to stderr, so that stdout only contains the result
+ */
+function createStderrLogger(output: CliOutput): GenericLogger {
+    const log = (...data: unknown[]) => output.stderr(data.join(" "));
+    return { log, info: log, debug: log, warn: log, error: log };
+}
@@ -0,0 +1,182 @@
+import {
+    assertEquals,
+    assertInstanceOf,
+    assertRejects,
+    assertThrows,
+} from "@std/assert";
+import { join } from "@std/path";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { lastValueFrom, toArray } from "rxjs";
+import { match } from "ts-pattern";
+import { splitSftpCommand } from "../test/fake_sftp/mod.ts";
+import {
+    ManifestValidationError,
+    runManifest,
+    runManifest$,
+    validateManifest,
+} from "./runManifest.ts";
+import { SftpClient } from "./SftpClient.ts";
+import { PermissionDeniedError } from "./SftpError.ts";
+import { InMemoryTransport } from "./transports/InMemoryTransport.ts";
+
+/**
+ * Creates a local dist directory and an SftpClient, which records the commands
+ * @param failingCommand optional - this command fails with "Permission denied"
+ */
+async function createDeployClient(failingCommand?: string) {
+    const cwd = await mkdtemp(join(tmpdir(), "sftp-manifest-"));
+    await mkdir(join(cwd, "dist/js"), { recursive: true });
+    for (const file of ["index.html", "js/app.js", "js/app.js.map"]) {
+        await writeFile(join(cwd, "dist", file), file);
+    }
+
+    const commands: string[] = [];
+    const sftpClient = new SftpClient({
+        host: "deploy-host",
+        cwd,
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport: new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command.includes("/sftp-client-end-marker/")) {
+                    return undefined;
+                }
+                commands.push(command);
+                const [action, ...args] = splitSftpCommand(command);
+                const path = args.at(-1) ?? "";
+                if (command === failingCommand) {
+                    return [`remote open("${path}"): Permission denied`];
+                }
+                return match(action)
+                    .with("ls", () => [`Can't ls: "${path}" not found`])
+                    .with("put", () => [`Uploading ${args[0]} to ${path}`])
+                    .with("chmod", () => [`Changing mode on ${path}`])
+                    .otherwise(() => []);
+            },
+        }),
+    });
+
+    return {
+        sftpClient,
+        commands,
+        cleanup: async () => {
+            await sftpClient.close();
+            await rm(cwd, { recursive: true });
+        },
+    };
+}
+
+const manifest = {
+    $schema: "../deploy-manifest.schema.json",
+    host: "deploy-host",
+    mkdir: ["/srv/releases/42"],
+    uploads: [{
+        from: "dist/**",
+        to: "/srv/releases/42",
+        exclude: ["**/*.map"],
+    }],
+    chmod: [{ path: "/srv/releases/42/js", mode: "755" }],
+    renames: [{ from: "/srv/releases/42", to: "/srv/current" }],
+};
+
+Deno.test("validateManifest", () => {
+    assertEquals(validateManifest(manifest), manifest);
+
+    const error = assertThrows(
+        () =>
+            validateManifest({
+                host: "deploy-host",
+                uploads: [{ from: "dist/**" }],
+                chmod: [{ path: "/srv", mode: "rwx" }],
+                rename: [],
+            }),
+        ManifestValidationError,
+    );
+    assertEquals(error.errors, [
+        "/uploads/0: must have the property 'to'",
+        "/chmod/0/mode: must match the pattern ^([0-7]{1,4}|[ugoa]*([+=-][rwxXst]*)+(,[ugoa]*([+=-][rwxXst]*)+)*)$",
+        "/: must not have the property 'rename'",
+    ]);
+});
+
+Deno.test("runManifest - runs all steps in order", async () => {
+    const { sftpClient, commands, cleanup } = await createDeployClient();
+    try {
+        const report = await runManifest(manifest, sftpClient);
+
+        assertEquals(report.success, true);
+        assertEquals(report.uploadedFiles, 2);
+        assertEquals(
+            report.steps.map(({ nr, total, status, description }) =>
+                `${nr}/${total} ${status}: ${description}`
+            ),
+            [
+                "1/4 ok: mkdir /srv/releases/42",
+                "2/4 ok: upload dist/** to /srv/releases/42",
+                "3/4 ok: chmod 755 /srv/releases/42/js",
+                "4/4 ok: rename /srv/releases/42 to /srv/current",
+            ],
+        );
+        assertEquals(
+            commands.filter((command) => !command.startsWith("ls ")),
+            [
+                'mkdir "/srv"',
+                'mkdir "/srv/releases"',
+                'mkdir "/srv/releases/42"',
+                // uploadDirectory$() ensures the target directory again
+                'mkdir "/srv/releases/42"',
+                'mkdir "/srv/releases/42/js"',
+                `put "${
+                    report.steps[1].files![0].localPath
+                }" "/srv/releases/42/index.html"`,
+                `put "${
+                    report.steps[1].files![1].localPath
+                }" "/srv/releases/42/js/app.js"`,
+                'chmod 755 "/srv/releases/42/js"',
+                'rename "/srv/releases/42" "/srv/current"',
+            ],
+        );
+    } finally {
+        await cleanup();
+    }
+});
+
+Deno.test("runManifest$ - a failed step skips the rest", async () => {
+    const { sftpClient, cleanup } = await createDeployClient(
+        'chmod 755 "/srv/releases/42/js"',
+    );
+    try {
+        const steps = await lastValueFrom(
+            runManifest$(manifest, sftpClient).pipe(toArray()),
+        );
+        assertEquals(steps.map(({ status }) => status), [
+            "ok",
+            "ok",
+            "failed",
+            "skipped",
+        ]);
+        assertInstanceOf(steps[2].error, PermissionDeniedError);
+    } finally {
+        await cleanup();
+    }
+});
+
+Deno.test("runManifest - rejects invalid manifests before any step", async () => {
+    const { sftpClient, commands, cleanup } = await createDeployClient();
+    try {
+        await assertRejects(
+            () => runManifest({ ...manifest, host: "prod-host" }, sftpClient),
+            ManifestValidationError,
+            "meant for 'prod-host'",
+        );
+        await assertRejects(
+            () => runManifest({ ...manifest, mkdir: "/srv" }, sftpClient),
+            ManifestValidationError,
+            "/mkdir: must be an array",
+        );
+        assertEquals(commands, []);
+    } finally {
+        await cleanup();
+    }
+});
@@ -0,0 +1,221 @@
+import { isGlob } from "@std/path";
+import {
+    concatMap,
+    defer,
+    from,
+    lastValueFrom,
+    type Observable,
+    toArray,
+} from "rxjs";
+import manifestSchema from "../deploy-manifest.schema.json" with {
+    type: "json",
+};
+import type {
+    DeployManifest,
+    ManifestReport,
+    ManifestStepResult,
+} from "./DeployManifest.type.ts";
+import type { DirectoryTransfer } from "./DirectoryTransfer.type.ts";
+import {
+    type JsonSchema,
+    validateJsonSchema,
+} from "./internal/validateJsonSchema.ts";
+import type { SftpClient } from "./SftpClient.ts";
+
+/**
+ * Thrown by `validateManifest()`, `runManifest()` and `runManifest$()` for manifests,
+ * which do not match `deploy-manifest.schema.json` or the host of the SftpClient.
+ */
+export class ManifestValidationError extends Error {
+    /**
+     * The validation errors with the JSON pointer of the invalid value, like `/uploads/0/to: must be a string`
+     */
+    public readonly errors: string[];
+
+    constructor(errors: string[]) {
+        super(`Invalid deploy manifest:\n${errors.join("\n")}`);
+        this.name = "ManifestValidationError";
+        this.errors = errors;
+    }
+}
+
+/**
+ * One step of a manifest, before it runs
+ */
+type ManifestStep = Pick<ManifestStepResult, "type" | "description"> & {
+    run(): Promise<DirectoryTransfer[] | void>;
+};
+
+/**
+ * Validates a parsed manifest (e.g. from `JSON.parse()`) against `deploy-manifest.schema.json`.
+ * @returns the manifest with its type
+ * @throws ManifestValidationError with all validation errors
+ */
+export function validateManifest(manifest: unknown): DeployManifest {
+    const errors = validateJsonSchema(manifest, manifestSchema as JsonSchema);
+    if (errors.length > 0) {
+        throw new ManifestValidationError(errors);
+    }
+    return manifest as DeployManifest;
+}
+
+/**
+ * Runs a deploy manifest through an SftpClient, see {@link DeployManifest} for the format.
+ * The steps run in this order: mkdir, uploads, chmod, renames.
+ * The first failing step aborts the deployment, the following steps are reported as "skipped".
+ *
+ * @param manifest the parsed manifest, it is validated first (see {@link validateManifest})
+ * @param client the SftpClient, which is connected to the `host` of the manifest
+ * @returns resolves with the report, when all steps are done
+ * @throws ManifestValidationError for invalid manifests (before any step runs)
+ *
+ * @example
+ * ```ts ignore
+ * import { runManifest, SftpClient } from "@codemonument/sftp-client";
+ *
+ * const manifest = JSON.parse(await Deno.readTextFile("deploy.json"));
+ * const sftpClient = new SftpClient({ host: manifest.host, cwd: ".", uploaderName: "deploy" });
+ *
+ * const report = await runManifest(manifest, sftpClient);
+ * await sftpClient.close();
+ * if (!report.success) {
+ *     console.error(`step ${report.failedStep?.nr} failed: ${report.failedStep?.error?.message}`);
+ * }
+ * ```
+ */
+export async function runManifest(
+    manifest: unknown,
+    client: SftpClient,
+): Promise<ManifestReport> {
+    const startedAt = Date.now();
+    const steps = await lastValueFrom(
+        runManifest$(manifest, client).pipe(toArray()),
+    );
+    const failedStep = steps.find((step) => step.status === "failed");
+    return {
+        success: failedStep === undefined,
+        steps,
+        failedStep,
+        uploadedFiles: steps.reduce(
+            (sum, step) => sum + (step.files?.length ?? 0),
+            0,
+        ),
+        durationMs: Date.now() - startedAt,
+    };
+}
+
+/**
+ * Runs a deploy manifest through an SftpClient, see {@link runManifest}.
+ * The manifest is validated on subscription.
+ * @returns An rxjs observable, which emits the result of each step, when it is done
+ * (a failed step is emitted with its error and does not error the observable)
+ */
+export function runManifest$(
+    manifest: unknown,
+    client: SftpClient,
+): Observable<ManifestStepResult> {
+    return defer(() => {
+        const steps = planManifest(validateManifest(manifest), client);
+        let failed = false;
+
+        return from(steps).pipe(
+            concatMap(async ({ type, description, run }, index) => {
+                const result = {
+                    nr: index + 1,
+                    total: steps.length,
+                    type,
+                    description,
+                };
+                if (failed) {
+                    return { ...result, status: "skipped" as const };
+                }
+                try {
+                    const files = await run();
+                    return {
+                        ...result,
+                        status: "ok" as const,
+                        ...(files && { files }),
+                    };
+                } catch (error) {
+                    failed = true;
+                    return {
+                        ...result,
+                        status: "failed" as const,
+                        error: error instanceof Error
+                            ? error
+                            : new Error(String(error)),
+                    };
+                }
+            }),
+        );
+    });
+}
+
+/**
+ * Creates the steps of a valid manifest
+ * @throws ManifestValidationError, if the manifest is meant for another host
+ */
+function planManifest(
+    { host, mkdir = [], uploads = [], chmod = [], renames = [] }:
+        DeployManifest,
+    client: SftpClient,
+): ManifestStep[] {
+    if (host !== client.host) {
+        throw new ManifestValidationError([
+            `/host: the manifest is meant for '${host}', but the SftpClient is connected to '${client.host}'`,
+        ]);
+    }
+
+    return [
+        ...mkdir.map((path): ManifestStep => ({
+            type: "mkdir",
+            description: `mkdir ${path}`,
+            run: () => client.mkdir(path, { recursive: true }),
+        })),
+        ...uploads.map(({ from, to, exclude }): ManifestStep => ({
+            type: "upload",
+            description: `upload ${from} to ${to}`,
+            run: async () => {
+                const { base, pattern } = splitGlob(from);
+                const files = await lastValueFrom(
+                    client.uploadDirectory$(base, to, {
+                        include: [pattern],
+                        exclude,
+                    }).pipe(toArray()),
+                );
+                if (files.length === 0) {
+                    throw new Error(
+                        `upload ${from} failed: no local files match`,
+                    );
+                }
+                return files;
+            },
+        })),
+        ...chmod.map(({ path, mode, recursive }): ManifestStep => ({
+            type: "chmod",
+            description: `chmod ${mode} ${path}`,
+            run: () => client.chmod(path, mode, { recursive }),
+        })),
+        ...renames.map(({ from, to, overwrite }): ManifestStep => ({
+            type: "rename",
+            description: `rename ${from} to ${to}`,
+            run: () => client.rename(from, to, { overwrite }),
+        })),
+    ];
+}
+
+/**
+ * Splits a glob at its first segment with wildcards:
+ * "dist/**\/*.js" => { base: "dist", pattern: "**\/*.js" },
+ * a path without wildcards matches only itself: "dist/index.html" => { base: "dist", pattern: "index.html" }
+ */
+function splitGlob(glob: string): { base: string; pattern: string } {
+    const segments = glob.split("/");
+    const globIndex = segments.findIndex((segment) => isGlob(segment));
+    const baseLength = globIndex === -1 ? segments.length - 1 : globIndex;
+    return {
+        base: segments.slice(0, baseLength).join("/") ||
+            (glob.startsWith("/") ? "/" : "."),
+        pattern: segments.slice(baseLength).join("/"),
+    };
+}
@@ -0,0 +1,91 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { Writable } from "node:stream";
+import type {
+    SftpTransport,
+    TransportExit,
+    TransportStartOptions,
+} from "./SftpTransport.type.ts";
+
+/**
+ * The default transport of the SftpClient, based on node:child_process (works in deno, node and bun).
+ * Passes the arguments to the sftp cli as a real argv array (no shell involved),
+ * so paths with whitespace (like an identity file or an ssh config) are supported.
+ */
+export class ChildProcessTransport implements SftpTransport {
+    private process?: ChildProcess;
+    private processStdin?: WritableStreamDefaultWriter<string>;
+    private processOutput?: ReadableStream<string>;
+    private processExited?: Promise<TransportExit>;
+
+    public start({ command, args, cwd }: TransportStartOptions): void {
+        const child = spawn(command, args, {
+            cwd, // specify a working directory
+            stdio: ["pipe", "pipe", "pipe"],
+        });
+        this.process = child;
+
+        // Setup stdin
+        // --------------------
+        const encoder = new TextEncoderStream();
+        encoder.readable
+            .pipeTo(Writable.toWeb(child.stdin))
+            .catch(() => {
+                // the process exited, which is handled via this.exited
+            });
+        this.processStdin = encoder.writable.getWriter();
+
+        // Setup output (stdout and stderr merged in the order of arrival)
+        // --------------------
+        let closeOutput = () => {};
+        this.processOutput = new ReadableStream<string>({
+            start(controller) {
+                const enqueue = (chunk: string) => controller.enqueue(chunk);
+                child.stdout.setEncoding("utf8").on("data", enqueue);
+                child.stderr.setEncoding("utf8").on("data", enqueue);
+                closeOutput = () => {
+                    closeOutput = () => {};
+                    controller.close();
+                };
+            },
+        });
+
+        // Detect the exit of the child process
+        // ("close" is emitted after stdout and stderr are drained, "error" if the executable could not be started)
+        this.processExited = new Promise<TransportExit>((resolve) => {
+            child.once("error", (error) => {
+                closeOutput();
+                resolve({ success: false, error });
+            });
+            child.once("close", (code) => {
+                closeOutput();
+                resolve({ success: code === 0, code: code ?? undefined });
+            });
+        });
+    }
+
+    public get stdin(): WritableStreamDefaultWriter<string> {
+        return this.started("stdin", this.processStdin);
+    }
+
+    public get output(): ReadableStream<string> {
+        return this.started("output", this.processOutput);
+    }
+
+    public get exited(): Promise<TransportExit> {
+        return this.started("exited", this.processExited);
+    }
+
+    public kill(): Promise<void> {
+        this.process?.kill();
+        return Promise.resolve();
+    }
+
+    private started<T>(property: string, value: T | undefined): T {
+        if (value === undefined) {
+            throw new Error(
+                `ChildProcessTransport.${property} is not available before start() - DEV ERROR!`,
+            );
+        }
+        return value;
+    }
+}
@@ -0,0 +1,57 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { SftpClient } from "../SftpClient.ts";
+import { ConnectionClosedError, NoSuchFileError } from "../SftpError.ts";
+import { InMemoryTransport } from "./InMemoryTransport.ts";
+
+function createClient(transport: InMemoryTransport) {
+    return new SftpClient({
+        host: "memory-host",
+        cwd: ".",
+        uploaderName: "in_memory",
+        logMode: "silent",
+        transport,
+    });
+}
+
+Deno.test("InMemoryTransport answers commands", async () => {
+    let remoteDir = "/home/tester";
+    const sftpClient = createClient(
+        new InMemoryTransport({
+            handleCommand: (command) => {
+                if (command === "pwd") {
+                    return [`Remote working directory: ${remoteDir}`];
+                }
+                if (command === 'cd "playground"') {
+                    remoteDir += "/playground";
+                    return [];
+                }
+                if (command.startsWith("cd ")) {
+                    return ["stat remote: No such file or directory"];
+                }
+            },
+        }),
+    );
+
+    assertEquals(await sftpClient.connected, true);
+    assertEquals(await sftpClient.pwd(), "/home/tester");
+    await sftpClient.cd("playground");
+    assertEquals(await sftpClient.pwd(), "/home/tester/playground");
+    await assertRejects(() => sftpClient.cd("missing"), NoSuchFileError);
+
+    await sftpClient.close();
+});
+
+Deno.test("InMemoryTransport exit rejects queued commands", async () => {
+    const transport = new InMemoryTransport({
+        handleCommand: (command, session) => {
+            if (command === "pwd") {
+                session.exit(1);
+                return [];
+            }
+        },
+    });
+    const sftpClient = createClient(transport);
+
+    await assertRejects(() => sftpClient.pwd(), ConnectionClosedError);
+    assertEquals(await transport.exited, { success: false, code: 1 });
+});
@@ -0,0 +1,190 @@
+import pDefer, { type DeferredPromise } from "p-defer";
+import type {
+    SftpTransport,
+    TransportExit,
+    TransportStartOptions,
+} from "./SftpTransport.type.ts";
+
+/**
+ * The session of one started in-memory process, passed to {@link InMemoryTransportOptions.handleCommand}.
+ */
+export type InMemorySftpSession = {
+    /**
+     * The start options of the process (command, args, cwd)
+     */
+    options: TransportStartOptions;
+
+    /**
+     * Writes one output line (a "\n" is appended)
+     */
+    print(line: string): void;
+
+    /**
+     * Exits the process with the given exit code
+     */
+    exit(code?: number): void;
+};
+
+/**
+ * The options for instantiating a new InMemoryTransport.
+ */
+export type InMemoryTransportOptions = {
+    /**
+     * The output lines after the start of each process.
+     * Default: ["Connected to <first arg>."]
+     */
+    greeting?: string[];
+
+    /**
+     * Optional - called after the greeting on each start of the process,
+     * e.g. to simulate connection failures with `session.print("Connection refused")` and `session.exit(255)`
+     */
+    onStart?(session: InMemorySftpSession): void;
+
+    /**
+     * Answers one command line, which was written to the stdin of the process.
+     * Like the real sftp cli, the transport echoes every command as "sftp> <command>" before calling this function.
+     *
+     * @returns the output lines of the command or undefined, if the command is not handled.
+     * Commands without answer are handled like the real sftp cli would do for these cases:
+     * - `lcd <path>` prints the "Couldn't change local directory" error (used as end marker by the SftpClient)
+     * - `exit`, `quit` and `bye` exit the process with code 0
+     * - all other commands print "Invalid command."
+     */
+    handleCommand(
+        command: string,
+        session: InMemorySftpSession,
+    ): string[] | undefined;
+};
+
+/**
+ * A transport without a real process, which answers the commands of the SftpClient with a function.
+ * Intended for tests, which should not depend on the sftp cli and a remote server.
+ *
+ * @example
+ * ```ts
+ * import { InMemoryTransport, SftpClient } from "@codemonument/sftp-client";
+ *
+ * const sftpClient = new SftpClient({
+ *     host: "test-host",
+ *     cwd: ".",
+ *     uploaderName: "test",
+ *     transport: new InMemoryTransport({
+ *         handleCommand: (command) =>
+ *             command === "pwd" ? ["Remote working directory: /home/test"] : undefined,
+ *     }),
+ * });
+ * await sftpClient.pwd(); // "/home/test"
+ * await sftpClient.close();
+ * ```
+ */
+export class InMemoryTransport implements SftpTransport {
+    private processStdin?: WritableStreamDefaultWriter<string>;
+    private processOutput?: ReadableStream<string>;
+    private processExit?: DeferredPromise<TransportExit>;
+    private finish?: (exit: TransportExit) => void;
+
+    constructor(private options: InMemoryTransportOptions) {}
+
+    public start(startOptions: TransportStartOptions): void {
+        const output = new TransformStream<string, string>();
+        const outputWriter = output.writable.getWriter();
+        const exit = pDefer<TransportExit>();
+        let exited = false;
+        const finish = (result: TransportExit) => {
+            if (exited) {
+                return;
+            }
+            exited = true;
+            outputWriter.close();
+            exit.resolve(result);
+        };
+
+        const session: InMemorySftpSession = {
+            options: startOptions,
+            print: (line) => {
+                if (!exited) {
+                    outputWriter.write(`${line}\n`);
+                }
+            },
+            exit: (code = 0) => finish({ success: code === 0, code }),
+        };
+
+        let buffer = "";
+        const stdin = new WritableStream<string>({
+            write: (chunk) => {
+                if (exited) {
+                    throw new Error("InMemoryTransport: the process exited");
+                }
+                buffer += chunk;
+                let newlineIndex = buffer.indexOf("\n");
+                while (newlineIndex !== -1 && !exited) {
+                    const command = buffer.slice(0, newlineIndex).trim();
+                    buffer = buffer.slice(newlineIndex + 1);
+                    session.print(`sftp> ${command}`);
+                    this.answer(command, session);
+                    newlineIndex = buffer.indexOf("\n");
+                }
+            },
+            close: () => session.exit(0),
+        });
+
+        this.processStdin = stdin.getWriter();
+        this.processOutput = output.readable;
+        this.processExit = exit;
+        this.finish = finish;
+
+        const greeting = this.options.greeting ??
+            [`Connected to ${startOptions.args.at(-1)}.`];
+        greeting.forEach(session.print);
+        this.options.onStart?.(session);
+    }
+
+    public get stdin(): WritableStreamDefaultWriter<string> {
+        return this.started("stdin", this.processStdin);
+    }
+
+    public get output(): ReadableStream<string> {
+        return this.started("output", this.processOutput);
+    }
+
+    public get exited(): Promise<TransportExit> {
+        return this.started("exited", this.processExit?.promise);
+    }
+
+    public kill(): Promise<void> {
+        this.finish?.({ success: false });
+        return Promise.resolve();
+    }
+
+    private answer(command: string, session: InMemorySftpSession) {
+        const answer = this.options.handleCommand(command, session);
+        if (answer) {
+            answer.forEach(session.print);
+            return;
+        }
+
+        const [action, ...args] = command.split(" ");
+        if (action === "exit" || action === "quit" || action === "bye") {
+            session.exit(0);
+        } else if (action === "lcd") {
+            // the SftpClient quotes the paths (but not the path of its end marker)
+            const localPath = args.join(" ").replace(/^"(.*)"$/, "$1")
+                .replace(/\\(.)/g, "$1");
+            session.print(
+                `Couldn't change local directory to "${localPath}": No such file or directory`,
+            );
+        } else {
+            session.print("Invalid command.");
+        }
+    }
+
+    private started<T>(property: string, value: T | undefined): T {
+        if (value === undefined) {
+            throw new Error(
+                `InMemoryTransport.${property} is not available before start() - DEV ERROR!`,
+            );
+        }
+        return value;
+    }
+}
@@ -0,0 +1,66 @@
+import { PuppetProcess } from "@codemonument/puppet-process/deno";
+import type {
+    SftpTransport,
+    TransportExit,
+    TransportStartOptions,
+} from "./SftpTransport.type.ts";
+
+/**
+ * A transport for the SftpClient, based on jsr:@codemonument/puppet-process.
+ *
+ * Note: PuppetProcess receives the command as one string,
+ * so the command and its arguments must not contain whitespace - use the default ChildProcessTransport for those.
+ */
+export class PuppetProcessTransport implements SftpTransport {
+    private process?: PuppetProcess;
+    private processStdin?: WritableStreamDefaultWriter<string>;
+    private processExited?: Promise<TransportExit>;
+
+    public start({ command, args, cwd, logger }: TransportStartOptions): void {
+        const invalidPart = [command, ...args].find((part) => /\s/.test(part));
+        if (invalidPart !== undefined) {
+            throw new Error(
+                `PuppetProcessTransport: '${invalidPart}' contains whitespace, which is not supported - use the ChildProcessTransport instead`,
+            );
+        }
+
+        this.process = new PuppetProcess({
+            command: [command, ...args].join(" "),
+            logger,
+            cwd, // specify a working directory
+        });
+        this.processStdin = this.process.std_in.getWriter();
+
+        this.process.start();
+
+        this.processExited = this.process.waitForExit().then(
+            () => ({ success: true, code: 0 }),
+            (error) => ({ success: false, error }),
+        );
+    }
+
+    public get stdin(): WritableStreamDefaultWriter<string> {
+        return this.started("stdin", this.processStdin);
+    }
+
+    public get output(): ReadableStream<string> {
+        return this.started("output", this.process?.std_all);
+    }
+
+    public get exited(): Promise<TransportExit> {
+        return this.started("exited", this.processExited);
+    }
+
+    public async kill(): Promise<void> {
+        await this.process?.kill();
+    }
+
+    private started<T>(property: string, value: T | undefined): T {
+        if (value === undefined) {
+            throw new Error(
+                `PuppetProcessTransport.${property} is not available before start() - DEV ERROR!`,
+            );
+        }
+        return value;
+    }
+}
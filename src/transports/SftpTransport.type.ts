@@ -0,0 +1,80 @@
+import type { GenericLogger } from "../GenericLogger.type.ts";
+
+/**
+ * The options, which are passed to {@link SftpTransport.start} by the SftpClient.
+ */
+export type TransportStartOptions = {
+    /**
+     * The executable to start, like "sftp"
+     */
+    command: string;
+
+    /**
+     * The arguments for the executable, like ["my-host"]
+     */
+    args: string[];
+
+    /**
+     * The working directory of the started process
+     */
+    cwd: string;
+
+    /**
+     * The logger of the SftpClient, which can be used by the transport
+     */
+    logger: GenericLogger;
+};
+
+/**
+ * Describes how the process of a transport exited.
+ */
+export type TransportExit = {
+    /**
+     * True, if the process exited with exit code 0
+     */
+    success: boolean;
+
+    /**
+     * The exit code, if the transport knows it
+     */
+    code?: number;
+
+    /**
+     * The error of the underlying process library, if any
+     */
+    error?: unknown;
+};
+
+/**
+ * A transport starts the sftp cli process and provides its stdin and output streams to the SftpClient.
+ * Implementations: ChildProcessTransport (default), PuppetProcessTransport, ExecaTransport (`@codemonument/sftp-client/execa`) and InMemoryTransport (for tests).
+ *
+ * A transport can be started again after its process exited.
+ * The `stdin`, `output` and `exited` properties always belong to the last started process.
+ */
+export interface SftpTransport {
+    /**
+     * Starts the process
+     */
+    start(options: TransportStartOptions): void;
+
+    /**
+     * The writer for the stdin of the process (text, each command is written with a trailing "\n")
+     */
+    readonly stdin: WritableStreamDefaultWriter<string>;
+
+    /**
+     * The merged stdout and stderr output of the process as text chunks (not split into lines)
+     */
+    readonly output: ReadableStream<string>;
+
+    /**
+     * Resolves when the process exited (never rejects)
+     */
+    readonly exited: Promise<TransportExit>;
+
+    /**
+     * Kills the process
+     */
+    kill(): Promise<void>;
+}
@@ -0,0 +1,87 @@
+import { bytesToString } from "@codemonument/rx-webstreams";
+import { execa, type ResultPromise } from "execa";
+import { Readable, Writable } from "node:stream";
+import type {
+    SftpTransport,
+    TransportExit,
+    TransportStartOptions,
+} from "../transports/SftpTransport.type.ts";
+
+/**
+ * A transport for the SftpClient, based on npm:execa.
+ * Passes the arguments to the sftp cli as a real argv array (no shell involved).
+ */
+export class ExecaTransport implements SftpTransport {
+    private process?: ResultPromise;
+    private processStdin?: WritableStreamDefaultWriter<string>;
+    private processOutput?: ReadableStream<string>;
+    private processExited?: Promise<TransportExit>;
+
+    public start({ command, args, cwd }: TransportStartOptions): void {
+        this.process = execa(command, args, {
+            all: true,
+            stdout: ["pipe"],
+            stderr: ["pipe"],
+            cwd, // specify a working directory
+        });
+
+        // Setup stdin
+        // --------------------
+        if (!this.process.stdin) {
+            throw new Error(
+                "ExecaTransport.process.stdin stream not available - DEV ERROR!",
+            );
+        }
+        const encoder = new TextEncoderStream();
+        encoder.readable
+            .pipeTo(Writable.toWeb(this.process.stdin))
+            .catch(() => {
+                // the process exited, which is handled via this.exited
+            });
+        this.processStdin = encoder.writable.getWriter();
+
+        // Setup output
+        // --------------------
+        if (!this.process.all) {
+            throw new Error(
+                "ExecaTransport.process.all stream not available - DEV ERROR!",
+            );
+        }
+        this.processOutput =
+            (Readable.toWeb(this.process.all) as ReadableStream<
+                Uint8Array
+            >).pipeThrough(bytesToString());
+
+        // Detect the exit of the child process
+        this.processExited = this.process.then(
+            (result) => ({ success: true, code: result.exitCode }),
+            (error) => ({ success: false, code: error?.exitCode, error }),
+        );
+    }
+
+    public get stdin(): WritableStreamDefaultWriter<string> {
+        return this.started("stdin", this.processStdin);
+    }
+
+    public get output(): ReadableStream<string> {
+        return this.started("output", this.processOutput);
+    }
+
+    public get exited(): Promise<TransportExit> {
+        return this.started("exited", this.processExited);
+    }
+
+    public kill(): Promise<void> {
+        this.process?.kill();
+        return Promise.resolve();
+    }
+
+    private started<T>(property: string, value: T | undefined): T {
+        if (value === undefined) {
+            throw new Error(
+                `ExecaTransport.${property} is not available before start() - DEV ERROR!`,
+            );
+        }
+        return value;
+    }
+}
@@ -1,16 +1,28 @@
 import { assert, assertEquals } from "@std/assert";
+import { fakeSftpOptions } from "../../test/fake_sftp/mod.ts";
 import { SftpClient } from "../with_execa/SftpClient.ts";
 
 Deno.test("SftpClient connect & exit", async () => {
     const sftpClient = new SftpClient({
-        cwd: "playground",
-        host: "maya-dev",
+        ...fakeSftpOptions("basic"),
         uploaderName: "with_execa",
     });
 
-    const result = await sftpClient.close();
+    assertEquals(await sftpClient.connected, true);
+    await sftpClient.close();
 
-    const clientOut = result?.all;
-    assert(clientOut);
-    assertEquals(clientOut, "Connected to maya-dev.\nsftp> exit ");
+    assert("closing sftp client was successful");
+});
+
+Deno.test("SftpClient pwd & cd", async () => {
+    const sftpClient = new SftpClient({
+        ...fakeSftpOptions("basic"),
+        uploaderName: "with_execa",
+    });
+
+    assertEquals(await sftpClient.pwd(), "/home/tester");
+    await sftpClient.cd("playground");
+    assertEquals(await sftpClient.pwd(), "/home/tester/playground");
+
+    await sftpClient.close();
 });
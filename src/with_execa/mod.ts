@@ -1 +1,2 @@
+export { ExecaTransport } from "./ExecaTransport.ts";
 export { SftpClient } from "./SftpClient.ts";
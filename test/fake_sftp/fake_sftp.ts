@@ -0,0 +1,205 @@
+#!/usr/bin/env -S deno run --allow-read
+/**
+ * A scripted fake of the OpenSSH `sftp` cli for tests.
+ * Usage: fake_sftp.ts [-b <batch-file>] [...ignored sftp options] <transcript-file>
+ *
+ * It replies to the commands read from stdin with the output recorded in the transcript file,
+ * so that the SftpClient can be tested without a real sftp server.
+ * See test/fake_sftp/README.md for the transcript format.
+ *
+ * Like the real sftp cli (when stdin is not a terminal), it echoes every command as "sftp> <command>" before answering.
+ * Commands without a transcript entry are handled like the real sftp cli would do for these cases:
+ * - `lcd <path>` into a non existing local directory prints the "Couldn't change local directory" error (used as end marker by the SftpClient)
+ * - `exit` and the end of stdin exit the fake with code 0
+ * - all other commands print an error, so that missing transcript entries are easy to spot
+ *
+ * With `-b <batch-file>`, the commands are read from the batch file instead of stdin.
+ * Like the real sftp cli, the fake exits with code 1 after the first command, which prints to stderr,
+ * unless the command has the "-" prefix.
+ *
+ * @module
+ */
+
+type TranscriptLine =
+    | { stream: "stdout" | "stderr"; text: string }
+    | { exitCode: number };
+
+type Transcript = {
+    /**
+     * The output before the first command, like "Connected to fake-host."
+     */
+    greeting: TranscriptLine[];
+
+    /**
+     * The recorded answers per command line.
+     * If a command was recorded multiple times, the answers are used in order and the last one is repeated.
+     */
+    answers: Map<string, TranscriptLine[][]>;
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Prints one transcript line
+ * @returns true, if the line was printed to stderr
+ */
+function write(line: TranscriptLine): boolean {
+    if ("exitCode" in line) {
+        Deno.exit(line.exitCode);
+    }
+    if (line.stream === "stderr") {
+        // the real sftp cli prints error messages with "\r\n"
+        Deno.stderr.writeSync(encoder.encode(`${line.text}\r\n`));
+        return true;
+    }
+    Deno.stdout.writeSync(encoder.encode(`${line.text}\n`));
+    return false;
+}
+
+function parseTranscript(content: string): Transcript {
+    const transcript: Transcript = { greeting: [], answers: new Map() };
+    let currentAnswer = transcript.greeting;
+
+    for (const rawLine of content.split("\n")) {
+        const line = rawLine.replace(/\r$/, "");
+
+        if (line.startsWith("#exit ")) {
+            currentAnswer.push({
+                exitCode: Number(line.slice("#exit ".length)),
+            });
+            continue;
+        }
+        if (line.startsWith("#") || line.trim() === "") {
+            continue;
+        }
+
+        if (line.startsWith("sftp> ")) {
+            const command = line.slice("sftp> ".length).trim();
+            const answers = transcript.answers.get(command) ?? [];
+            currentAnswer = [];
+            answers.push(currentAnswer);
+            transcript.answers.set(command, answers);
+            continue;
+        }
+
+        currentAnswer.push(
+            line.startsWith("2> ")
+                ? { stream: "stderr", text: line.slice("2> ".length) }
+                : { stream: "stdout", text: line },
+        );
+    }
+
+    return transcript;
+}
+
+/**
+ * Answers one command
+ * @returns "exit" for the exit commands, "failed", if an error was printed to stderr, otherwise "ok"
+ */
+function answer(
+    transcript: Transcript,
+    command: string,
+): "ok" | "failed" | "exit" {
+    const answers = transcript.answers.get(command.trim());
+    if (answers) {
+        const output = answers.length > 1 ? answers.shift() : answers[0];
+        return (output ?? []).map(write).some(Boolean) ? "failed" : "ok";
+    }
+
+    const [action, ...args] = command.trim().split(" ");
+
+    if (action === "exit" || action === "quit" || action === "bye") {
+        return "exit";
+    }
+
+    if (action === "lcd") {
+        // the SftpClient quotes the paths (but not the path of its end marker)
+        const localPath = args.join(" ").replace(/^"(.*)"$/, "$1")
+            .replace(/\\(.)/g, "$1");
+        try {
+            Deno.chdir(localPath);
+            return "ok";
+        } catch {
+            write({
+                stream: "stderr",
+                text:
+                    `Couldn't change local directory to "${localPath}": No such file or directory`,
+            });
+            return "failed";
+        }
+    }
+
+    write({
+        stream: "stderr",
+        text: `fake_sftp: no transcript entry for command '${command}'`,
+    });
+    return "failed";
+}
+
+/**
+ * Runs the commands of a batch file (`sftp -b <batch-file>`)
+ */
+async function runBatch(transcript: Transcript, batchFile: string) {
+    const lines = (await Deno.readTextFile(batchFile)).split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line !== "" && !line.startsWith("#"));
+
+    for (const line of lines) {
+        write({ stream: "stdout", text: `sftp> ${line}` });
+        const ignoreError = line.startsWith("-");
+        const result = answer(
+            transcript,
+            ignoreError ? line.slice(1) : line,
+        );
+        if (result === "exit") {
+            Deno.exit(0);
+        }
+        if (result === "failed" && !ignoreError) {
+            Deno.exit(1);
+        }
+    }
+    Deno.exit(0);
+}
+
+async function main() {
+    const transcriptPath = Deno.args.at(-1);
+    if (!transcriptPath) {
+        write({
+            stream: "stderr",
+            text: "fake_sftp: missing transcript file",
+        });
+        Deno.exit(1);
+    }
+
+    const transcript = parseTranscript(
+        await Deno.readTextFile(transcriptPath),
+    );
+    transcript.greeting.forEach(write);
+
+    const batchIndex = Deno.args.indexOf("-b");
+    if (batchIndex !== -1) {
+        await runBatch(transcript, Deno.args[batchIndex + 1]);
+    }
+
+    let buffer = "";
+    const decoder = new TextDecoder();
+    for await (const chunk of Deno.stdin.readable) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newlineIndex = buffer.indexOf("\n");
+        while (newlineIndex !== -1) {
+            const command = buffer.slice(0, newlineIndex);
+            buffer = buffer.slice(newlineIndex + 1);
+
+            write({ stream: "stdout", text: `sftp> ${command}` });
+            if (answer(transcript, command) === "exit") {
+                Deno.exit(0);
+            }
+            newlineIndex = buffer.indexOf("\n");
+        }
+    }
+
+    Deno.exit(0);
+}
+
+await main();
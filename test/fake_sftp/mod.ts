@@ -0,0 +1,81 @@
+import { fromFileUrl } from "@std/path";
+import type { GenericLogger } from "../../src/GenericLogger.type.ts";
+import type { ClientOptions } from "../../src/SftpClient.ts";
+
+/**
+ * The path of the fake sftp executable
+ */
+export const FAKE_SFTP_EXECUTABLE = fromFileUrl(
+    new URL("./fake_sftp.ts", import.meta.url),
+);
+
+/**
+ * @param name the file name of a transcript in test/fake_sftp/transcripts (without `.txt`)
+ * @returns the absolute path of the transcript
+ */
+export function transcriptPath(name: string): string {
+    return fromFileUrl(
+        new URL(`./transcripts/${name}.txt`, import.meta.url),
+    );
+}
+
+/**
+ * Creates the ClientOptions for an SftpClient, which talks to the fake sftp executable
+ * @param transcript the name of the transcript to replay (see transcriptPath)
+ * @param options optional - overrides for the default options
+ */
+export function fakeSftpOptions(
+    transcript: string,
+    options: Partial<ClientOptions> = {},
+): ClientOptions {
+    return {
+        cwd: "playground",
+        host: transcriptPath(transcript),
+        uploaderName: "fake_sftp",
+        executable: FAKE_SFTP_EXECUTABLE,
+        logMode: "silent",
+        ...options,
+    };
+}
+
+/**
+ * One log call, recorded by the logger of createRecordingLogger()
+ */
+export type LogRecord = {
+    level: keyof GenericLogger;
+    message: string;
+};
+
+/**
+ * Creates a logger, which records all log calls instead of printing them
+ */
+export function createRecordingLogger(): GenericLogger & {
+    records: LogRecord[];
+} {
+    const records: LogRecord[] = [];
+    const record = (level: keyof GenericLogger) => (message: string) => {
+        records.push({ level, message });
+    };
+
+    return {
+        records,
+        log: record("log"),
+        info: record("info"),
+        debug: record("debug"),
+        warn: record("warn"),
+        error: record("error"),
+    };
+}
+
+/**
+ * Splits a command of the SftpClient into its words, like the sftp cli does:
+ * at whitespace, but not inside of double quotes, which may contain `\"` and `\\`.
+ *
+ * @example
+ * splitSftpCommand('put "my file.txt" /srv') // => ["put", "my file.txt", "/srv"]
+ */
+export function splitSftpCommand(command: string): string[] {
+    return [...command.matchAll(/"((?:[^"\\]|\\.)*)"|(\S+)/g)].map((
+        [_match, quoted, word],
+    ) => quoted?.replace(/\\(.)/g, "$1") ?? word);
+}